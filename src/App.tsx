@@ -6,6 +6,10 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import RideHistory from "./pages/RideHistory";
+import RideReceipt from "./pages/RideReceipt";
+import Earnings from "./pages/Earnings";
+import AdminConsole from "./pages/AdminConsole";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,6 +24,10 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
+            <Route path="/rides/history" element={<RideHistory />} />
+            <Route path="/rides/:rideId/receipt" element={<RideReceipt />} />
+            <Route path="/earnings" element={<Earnings />} />
+            <Route path="/admin" element={<AdminConsole />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
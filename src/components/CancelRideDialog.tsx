@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { CANCELLATION_REASONS, CancellingParty } from '@/lib/cancellation';
+import { invokeFunction } from '@/lib/functions';
+import { errorMessage } from '@/lib/errors';
+import { toast } from 'sonner';
+
+interface CancelRideDialogProps {
+  rideId: string;
+  party: CancellingParty;
+  // Fee the customer will be charged, when cancelling after acceptance
+  fee?: number;
+  onCancelled: () => void;
+}
+
+const CancelRideDialog = ({ rideId, party, fee, onCancelled }: CancelRideDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [reasonCode, setReasonCode] = useState('');
+  const [note, setNote] = useState('');
+
+  const cancelRide = useMutation({
+    mutationFn: async () => {
+      // Support cancels through the audited admin function, never with a fee
+      if (party === 'admin') {
+        await invokeFunction('admin-actions', {
+          action: 'cancel_ride',
+          ride_id: rideId,
+          reason_code: reasonCode,
+          note: note || null,
+        });
+        return { cancellation_fee: 0 };
+      }
+      return invokeFunction<{ cancellation_fee: number }>('cancel-ride', {
+        ride_id: rideId,
+        reason_code: reasonCode,
+        note: note || null,
+      });
+    },
+    onSuccess: (data) => {
+      if (party === 'driver') {
+        toast.success('You have backed out of this ride. It is available to other drivers again.');
+      } else if (data.cancellation_fee > 0) {
+        toast.success(`Ride cancelled. A cancellation fee of ₹${data.cancellation_fee} applies.`);
+      } else {
+        toast.success('Ride cancelled');
+      }
+      setOpen(false);
+      setReasonCode('');
+      setNote('');
+      onCancelled();
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to cancel ride'));
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="w-full text-destructive hover:text-destructive">
+          {party === 'driver' ? 'Back Out of Ride' : 'Cancel Ride'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{party === 'driver' ? 'Back out of this ride?' : 'Cancel this ride?'}</DialogTitle>
+          <DialogDescription>
+            {party === 'driver'
+              ? 'The customer will be notified and the ride will be offered to other drivers.'
+              : party === 'admin'
+                ? 'The customer and driver will be notified. No cancellation fee is charged.'
+                : fee
+                  ? `Your driver is already on the way, so a cancellation fee of ₹${fee} applies.`
+                  : 'No cancellation fee applies before a driver accepts your ride.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reasonCode} onValueChange={setReasonCode}>
+            {CANCELLATION_REASONS[party].map((reason) => (
+              <div key={reason.code} className="flex items-center space-x-2">
+                <RadioGroupItem value={reason.code} id={`${rideId}-${reason.code}`} />
+                <Label htmlFor={`${rideId}-${reason.code}`}>{reason.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <div className="space-y-2">
+            <Label htmlFor={`${rideId}-cancel-note`}>Details (Optional)</Label>
+            <Textarea
+              id={`${rideId}-cancel-note`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Keep Ride
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => cancelRide.mutate()}
+            disabled={!reasonCode || cancelRide.isPending}
+          >
+            {cancelRide.isPending ? 'Cancelling...' : 'Confirm'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelRideDialog;
@@ -1,16 +1,32 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
-import { MapPin, Clock, Car, Bike, Truck } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { FareBreakdown } from '@/lib/fare';
+import { emptyLocation, isResolved, PickedLocation } from '@/lib/geocoder';
+import LocationPicker from '@/components/LocationPicker';
+import CancelRideDialog from '@/components/CancelRideDialog';
+import { errorMessage } from '@/lib/errors';
+import { invokeFunction } from '@/lib/functions';
+import { ACTIVE_RIDE_STATUSES, getStatusColor } from '@/lib/rideStatus';
+import { DEFAULT_SCHEDULING_SETTINGS, isScheduledPickup, schedulingSettingsFrom } from '@/lib/scheduling';
+import RideTimeline from '@/components/RideTimeline';
+import DriverLocation from '@/components/DriverLocation';
+import RideBids from '@/components/RideBids';
+import RatingBadge from '@/components/RatingBadge';
+import { useRatingSummaries } from '@/hooks/useRatingSummaries';
+import { useCustomerRidesRealtime } from '@/hooks/useCustomerRidesRealtime';
+import { useLinkedRide } from '@/hooks/useLinkedRide';
+import { MapPin, Clock, Car, Bike, Truck, CalendarClock } from 'lucide-react';
 
 interface Location {
   id: string;
@@ -26,18 +42,42 @@ interface Ride {
   to_location: string;
   pickup_time: string;
   vehicle_type: 'auto' | 'car' | 'bike';
-  status: 'pending' | 'accepted' | 'in_progress' | 'completed' | 'cancelled';
+  status: 'scheduled' | 'pending' | 'accepted' | 'in_progress' | 'completed' | 'cancelled' | 'expired';
+  is_scheduled: boolean;
   distance_km: number;
   estimated_fare: number;
   final_fare: number;
+  min_price: number | null;
+  max_price: number | null;
+  driver_price: number | null;
   notes: string;
   driver_id: string;
+  from_latitude: number | null;
+  from_longitude: number | null;
+  to_latitude: number | null;
+  to_longitude: number | null;
+  cancellation_reason: string | null;
+  cancellation_fee: number | null;
+  created_at: string;
+  accepted_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+  expired_at: string | null;
   profiles: {
     full_name: string;
     phone: string;
   };
 }
 
+interface RideQuote {
+  vehicle_type: 'auto' | 'car' | 'bike';
+  estimated_fare: number;
+  fare_breakdown: FareBreakdown;
+  distance_km: number;
+  eta_minutes: number | null;
+}
+
 const VehicleIcon = ({ type }: { type: string }) => {
   switch (type) {
     case 'car': return <Car className="h-4 w-4" />;
@@ -51,14 +91,15 @@ const CustomerDashboard = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   
-  const [fromLocation, setFromLocation] = useState('');
-  const [toLocation, setToLocation] = useState('');
+  const [fromLocation, setFromLocation] = useState<PickedLocation>(emptyLocation);
+  const [toLocation, setToLocation] = useState<PickedLocation>(emptyLocation);
   const [pickupTime, setPickupTime] = useState('');
   const [vehicleType, setVehicleType] = useState<'auto' | 'car' | 'bike'>('car');
   const [notes, setNotes] = useState('');
   const [minPrice, setMinPrice] = useState('');
   const [maxPrice, setMaxPrice] = useState('');
   const [driverPrice, setDriverPrice] = useState('');
+  const [quoteRequest, setQuoteRequest] = useState<{ from: PickedLocation; to: PickedLocation; pickupTime: string } | null>(null);
 
   // Set default pickup time to current time + 10 minutes
   useEffect(() => {
@@ -67,6 +108,64 @@ const CustomerDashboard = () => {
     setPickupTime(now.toISOString().slice(0, 16));
   }, []);
 
+  // Wait for the customer to stop typing before asking for quotes
+  useEffect(() => {
+    if (!fromLocation.address || !toLocation.address || !pickupTime) {
+      setQuoteRequest(null);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      setQuoteRequest({ from: fromLocation, to: toLocation, pickupTime });
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [fromLocation, toLocation, pickupTime]);
+
+  // Fare quotes for every vehicle type, priced without booking anything
+  const { data: quotes = [], isFetching: quotesLoading, error: quoteError } = useQuery({
+    queryKey: ['ride-quotes', quoteRequest],
+    queryFn: async () => {
+      const data = await invokeFunction<{ quotes: RideQuote[] }>('quote-ride', {
+        from_location: quoteRequest!.from.address,
+        to_location: quoteRequest!.to.address,
+        from_latitude: quoteRequest!.from.latitude,
+        from_longitude: quoteRequest!.from.longitude,
+        to_latitude: quoteRequest!.to.latitude,
+        to_longitude: quoteRequest!.to.longitude,
+        pickup_time: new Date(quoteRequest!.pickupTime).toISOString(),
+      });
+      return data.quotes;
+    },
+    enabled: !!quoteRequest,
+    // Quote errors are validation failures; retrying will not change them
+    retry: false,
+  });
+
+  // Cancellation fees come from the tariff for the ride's vehicle type
+  const { data: fareTariffs = [] } = useQuery({
+    queryKey: ['fare-tariffs'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fare_tariffs')
+        .select('*');
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Lead time that decides whether a booking is held as a scheduled ride
+  const { data: schedulingSettings = DEFAULT_SCHEDULING_SETTINGS } = useQuery({
+    queryKey: ['app-settings', 'scheduling'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('key, value');
+
+      if (error) throw error;
+      return schedulingSettingsFrom(data);
+    },
+  });
+
   // Fetch user's rides
   const { data: rides = [] } = useQuery({
     queryKey: ['customer-rides'],
@@ -78,6 +177,7 @@ const CustomerDashboard = () => {
           profiles!rides_driver_id_fkey(full_name, phone)
         `)
         .eq('customer_id', user?.id)
+        .in('status', ['scheduled', ...ACTIVE_RIDE_STATUSES])
         .order('created_at', { ascending: false });
       
       if (error) throw error;
@@ -85,22 +185,24 @@ const CustomerDashboard = () => {
     },
   });
 
+  const driverRatings = useRatingSummaries(rides.map((ride) => ride.driver_id), 'driver');
+
+  // Flip ride cards to accepted / in progress / completed as the driver acts
+  useCustomerRidesRealtime(user?.id);
+
   // Create ride mutation
   const createRide = useMutation({
-    mutationFn: async (rideData: any) => {
-      const { data, error } = await supabase.functions.invoke('create-ride', {
-        body: rideData
-      });
-      
-      if (error) throw error;
-      return data;
+    mutationFn: async (rideData: Record<string, unknown>) => {
+      return invokeFunction<{ ride?: Ride }>('create-ride', rideData);
     },
-    onSuccess: () => {
-      toast.success('Ride request created successfully!');
+    onSuccess: (data) => {
+      toast.success(data.ride?.status === 'scheduled'
+        ? 'Ride scheduled! We will start finding a driver shortly before pickup.'
+        : 'Ride request created successfully!');
       queryClient.invalidateQueries({ queryKey: ['customer-rides'] });
       // Reset form
-      setFromLocation('');
-      setToLocation('');
+      setFromLocation(emptyLocation);
+      setToLocation(emptyLocation);
       const now = new Date();
       now.setMinutes(now.getMinutes() + 10);
       setPickupTime(now.toISOString().slice(0, 16));
@@ -109,19 +211,24 @@ const CustomerDashboard = () => {
       setMaxPrice('');
       setDriverPrice('');
     },
-    onError: (error: any) => {
-      toast.error(error.message || 'Failed to create ride request');
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to create ride request'));
     },
   });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!fromLocation || !toLocation || !pickupTime || !minPrice || !maxPrice || !driverPrice) {
+    if (!fromLocation.address || !toLocation.address || !pickupTime || !minPrice || !maxPrice || !driverPrice) {
       toast.error('Please fill in all required fields');
       return;
     }
 
+    if (!isResolved(fromLocation) || !isResolved(toLocation)) {
+      toast.error('Please choose pickup and drop-off locations we can find on the map');
+      return;
+    }
+
     const minPriceNum = parseFloat(minPrice);
     const maxPriceNum = parseFloat(maxPrice);
     const driverPriceNum = parseFloat(driverPrice);
@@ -137,9 +244,13 @@ const CustomerDashboard = () => {
     }
 
     createRide.mutate({
-      from_location: fromLocation,
-      to_location: toLocation,
-      pickup_time: pickupTime,
+      from_location: fromLocation.address,
+      to_location: toLocation.address,
+      from_latitude: fromLocation.latitude,
+      from_longitude: fromLocation.longitude,
+      to_latitude: toLocation.latitude,
+      to_longitude: toLocation.longitude,
+      pickup_time: new Date(pickupTime).toISOString(),
       vehicle_type: vehicleType,
       notes: notes || null,
       min_price: minPriceNum,
@@ -148,16 +259,11 @@ const CustomerDashboard = () => {
     });
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'bg-yellow-100 text-yellow-800';
-      case 'accepted': return 'bg-blue-100 text-blue-800';
-      case 'in_progress': return 'bg-green-100 text-green-800';
-      case 'completed': return 'bg-gray-100 text-gray-800';
-      case 'cancelled': return 'bg-red-100 text-red-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
+  // Scheduled rides wait in their own section until they are released; finished
+  // rides are on the ride history page
+  const scheduledRides = rides.filter((ride) => ride.status === 'scheduled');
+  const currentRides = rides.filter((ride) => (ACTIVE_RIDE_STATUSES as readonly string[]).includes(ride.status));
+  const linkedRideId = useLinkedRide(rides.length > 0);
 
   return (
     <div className="space-y-6">
@@ -174,26 +280,20 @@ const CustomerDashboard = () => {
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="from">From Location</Label>
-                <Input
-                  id="from"
-                  placeholder="Enter pickup address"
-                  value={fromLocation}
-                  onChange={(e) => setFromLocation(e.target.value)}
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="to">To Location</Label>
-                <Input
-                  id="to"
-                  placeholder="Enter destination address"
-                  value={toLocation}
-                  onChange={(e) => setToLocation(e.target.value)}
-                  required
-                />
-              </div>
+              <LocationPicker
+                id="from"
+                label="From Location"
+                placeholder="Enter pickup address"
+                value={fromLocation}
+                onChange={setFromLocation}
+              />
+              <LocationPicker
+                id="to"
+                label="To Location"
+                placeholder="Enter destination address"
+                value={toLocation}
+                onChange={setToLocation}
+              />
             </div>
 
             <div className="grid md:grid-cols-2 gap-4">
@@ -207,35 +307,53 @@ const CustomerDashboard = () => {
                   min={new Date().toISOString().slice(0, 16)}
                   required
                 />
+                {pickupTime && isScheduledPickup(pickupTime, new Date(), schedulingSettings) && (
+                  <p className="text-xs text-muted-foreground">
+                    This ride will be scheduled. We start finding a driver {schedulingSettings.releaseLeadMinutes} minutes before pickup.
+                  </p>
+                )}
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="vehicle">Vehicle Type</Label>
-                <Select value={vehicleType} onValueChange={(value: 'auto' | 'car' | 'bike') => setVehicleType(value)}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="bg-popover border border-border z-50">
-                    <SelectItem value="car">
-                      <div className="flex items-center gap-2">
-                        <Car className="h-4 w-4" />
-                        Car
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="auto">
-                      <div className="flex items-center gap-2">
-                        <Truck className="h-4 w-4" />
-                        Auto
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="bike">
-                      <div className="flex items-center gap-2">
-                        <Bike className="h-4 w-4" />
-                        Bike
+            </div>
+
+            <div className="space-y-2">
+              <Label>Vehicle Type</Label>
+              <div className="grid grid-cols-3 gap-3">
+                {(['car', 'auto', 'bike'] as const).map((type) => {
+                  const quote = quotes.find((q) => q.vehicle_type === type);
+                  return (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setVehicleType(type)}
+                      className={cn(
+                        'border rounded-lg p-3 text-left transition-colors',
+                        vehicleType === type ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                      )}
+                    >
+                      <div className="flex items-center gap-2 font-medium">
+                        <VehicleIcon type={type} />
+                        {type.charAt(0).toUpperCase() + type.slice(1)}
                       </div>
-                    </SelectItem>
-                  </SelectContent>
-                </Select>
+                      {quote ? (
+                        <div className="mt-1 text-sm">
+                          <p className="font-semibold">₹{quote.estimated_fare}</p>
+                          <p className="text-muted-foreground">
+                            {quote.distance_km} km
+                            {quote.eta_minutes != null && ` · ${quote.eta_minutes} min`}
+                          </p>
+                        </div>
+                      ) : (
+                        <p className="mt-1 text-sm text-muted-foreground">
+                          {quotesLoading ? 'Getting quote...' : 'Enter route for quote'}
+                        </p>
+                      )}
+                    </button>
+                  );
+                })}
               </div>
+              {quoteError && !quotesLoading && (
+                <p className="text-sm text-destructive">{quoteError.message}</p>
+              )}
             </div>
 
             <div className="space-y-4">
@@ -289,7 +407,7 @@ const CustomerDashboard = () => {
               <div className="bg-muted/50 p-3 rounded-lg">
                 <p className="text-sm text-muted-foreground">
                   <strong>How it works:</strong> Drivers will see your offered price ({driverPrice ? `₹${driverPrice}` : '₹0'}). 
-                  You'll pay between ₹{minPrice || '0'} - ₹{maxPrice || '0'} based on demand and availability.
+                  They can accept it or send a counter-offer between ₹{minPrice || '0'} - ₹{maxPrice || '0'}, and you choose which offer to take.
                 </p>
               </div>
             </div>
@@ -316,20 +434,75 @@ const CustomerDashboard = () => {
         </CardContent>
       </Card>
 
+      {scheduledRides.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Scheduled
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {scheduledRides.map((ride) => (
+                <div
+                  key={ride.id}
+                  id={`ride-${ride.id}`}
+                  className={cn('border rounded-lg p-4', ride.id === linkedRideId && 'ring-2 ring-primary')}
+                >
+                  <div className="flex justify-between items-start mb-2">
+                    <div className="flex items-center gap-2">
+                      <VehicleIcon type={ride.vehicle_type} />
+                      <span className="font-medium">{ride.vehicle_type.toUpperCase()}</span>
+                    </div>
+                    <Badge className={getStatusColor(ride.status)}>SCHEDULED</Badge>
+                  </div>
+                  <div className="space-y-1 text-sm">
+                    <p><strong>From:</strong> {ride.from_location}</p>
+                    <p><strong>To:</strong> {ride.to_location}</p>
+                    <p><strong>Pickup:</strong> {new Date(ride.pickup_time).toLocaleString()}</p>
+                    {ride.estimated_fare && <p><strong>Estimated Fare:</strong> ₹{ride.estimated_fare}</p>}
+                    <p className="text-muted-foreground">
+                      We start finding a driver {schedulingSettings.releaseLeadMinutes} minutes before pickup.
+                    </p>
+                  </div>
+                  <div className="mt-3">
+                    <CancelRideDialog
+                      rideId={ride.id}
+                      party="customer"
+                      onCancelled={() => queryClient.invalidateQueries({ queryKey: ['customer-rides'] })}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Clock className="h-5 w-5" />
-            Your Rides
-          </CardTitle>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Your Rides
+            </CardTitle>
+            <Button variant="link" asChild>
+              <Link to="/rides/history">View ride history</Link>
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
-          {rides.length === 0 ? (
-            <p className="text-muted-foreground text-center py-8">No rides found. Book your first ride above!</p>
+          {currentRides.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No active rides. Book a ride above!</p>
           ) : (
             <div className="space-y-4">
-              {rides.map((ride) => (
-                <div key={ride.id} className="border rounded-lg p-4">
+              {currentRides.map((ride) => (
+                <div
+                  key={ride.id}
+                  id={`ride-${ride.id}`}
+                  className={cn('border rounded-lg p-4', ride.id === linkedRideId && 'ring-2 ring-primary')}
+                >
                   <div className="flex justify-between items-start mb-2">
                     <div className="flex items-center gap-2">
                       <VehicleIcon type={ride.vehicle_type} />
@@ -345,11 +518,34 @@ const CustomerDashboard = () => {
                     <p><strong>Pickup:</strong> {new Date(ride.pickup_time).toLocaleString()}</p>
                     {ride.distance_km && <p><strong>Distance:</strong> {ride.distance_km} km</p>}
                     {ride.estimated_fare && <p><strong>Fare:</strong> ₹{ride.final_fare || ride.estimated_fare}</p>}
+                    {ride.min_price != null && (
+                      <p><strong>Your Range:</strong> ₹{ride.min_price} - ₹{ride.max_price} (offered ₹{ride.driver_price})</p>
+                    )}
                     {ride.profiles && (
-                      <p><strong>Driver:</strong> {ride.profiles.full_name} ({ride.profiles.phone})</p>
+                      <p>
+                        <strong>Driver:</strong> {ride.profiles.full_name} ({ride.profiles.phone}){' '}
+                        <RatingBadge summary={driverRatings[ride.driver_id]} />
+                      </p>
                     )}
                     {ride.notes && <p><strong>Notes:</strong> {ride.notes}</p>}
+                    <div className="pt-2">
+                      <RideTimeline ride={ride} />
+                    </div>
+                    <DriverLocation ride={ride} />
+                    <RideBids ride={ride} />
                   </div>
+                  {(ride.status === 'pending' || ride.status === 'accepted') && (
+                    <div className="mt-3">
+                      <CancelRideDialog
+                        rideId={ride.id}
+                        party="customer"
+                        fee={ride.status === 'accepted'
+                          ? fareTariffs.find((t) => t.vehicle_type === ride.vehicle_type)?.cancellation_fee
+                          : undefined}
+                        onCancelled={() => queryClient.invalidateQueries({ queryKey: ['customer-rides'] })}
+                      />
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { DECLINE_REASONS } from '@/lib/offers';
+import { invokeFunction } from '@/lib/functions';
+import { errorMessage } from '@/lib/errors';
+import { toast } from 'sonner';
+
+interface DeclineRideDialogProps {
+  rideId: string;
+  onDeclined: () => void;
+}
+
+const DeclineRideDialog = ({ rideId, onDeclined }: DeclineRideDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [reasonCode, setReasonCode] = useState('');
+  const [note, setNote] = useState('');
+
+  const declineRide = useMutation({
+    mutationFn: async () => {
+      return invokeFunction('decline-ride', {
+        ride_id: rideId,
+        reason_code: reasonCode,
+        note: note || null,
+      });
+    },
+    onSuccess: () => {
+      toast.success("Ride declined. We won't show it to you again.");
+      setOpen(false);
+      setReasonCode('');
+      setNote('');
+      onDeclined();
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to decline ride'));
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          Decline
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Decline this ride?</DialogTitle>
+          <DialogDescription>
+            The ride will be offered to other drivers and removed from your list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reasonCode} onValueChange={setReasonCode}>
+            {DECLINE_REASONS.map((reason) => (
+              <div key={reason.code} className="flex items-center space-x-2">
+                <RadioGroupItem value={reason.code} id={`${rideId}-decline-${reason.code}`} />
+                <Label htmlFor={`${rideId}-decline-${reason.code}`}>{reason.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <div className="space-y-2">
+            <Label htmlFor={`${rideId}-decline-note`}>Details (Optional)</Label>
+            <Textarea
+              id={`${rideId}-decline-note`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Keep Ride
+          </Button>
+          <Button
+            onClick={() => declineRide.mutate()}
+            disabled={!reasonCode || declineRide.isPending}
+          >
+            {declineRide.isPending ? 'Declining...' : 'Decline Ride'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeclineRideDialog;
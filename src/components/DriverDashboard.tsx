@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,9 +9,25 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import { errorMessage } from '@/lib/errors';
+import { calculateFare, FareTariff } from '@/lib/fare';
+import { EdgeFunctionError, invokeFunction } from '@/lib/functions';
+import { RATING_WINDOW_HOURS } from '@/lib/ratings';
+import { isWithinPriceRange } from '@/lib/rides';
+import { getStatusColor } from '@/lib/rideStatus';
+import CancelRideDialog from '@/components/CancelRideDialog';
+import DeclineRideDialog from '@/components/DeclineRideDialog';
+import RateRideDialog from '@/components/RateRideDialog';
+import RatingBadge from '@/components/RatingBadge';
+import { RatingSummary, useRatingSummaries } from '@/hooks/useRatingSummaries';
+import { useRideBoardRealtime } from '@/hooks/useRideBoardRealtime';
+import { useDriverLocationReporter } from '@/hooks/useDriverLocationReporter';
+import { useLinkedRide } from '@/hooks/useLinkedRide';
+import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
-import { Car, Bike, Truck, MapPin, Clock, DollarSign } from 'lucide-react';
+import { Car, Bike, Truck, MapPin, Clock, DollarSign, CalendarClock, Star } from 'lucide-react';
 
 interface DriverProfile {
   id: string;
@@ -26,10 +43,14 @@ interface Ride {
   to_location: string;
   pickup_time: string;
   vehicle_type: 'auto' | 'car' | 'bike';
-  status: 'pending' | 'accepted' | 'in_progress' | 'completed' | 'cancelled';
+  status: 'scheduled' | 'pending' | 'accepted' | 'in_progress' | 'completed' | 'cancelled' | 'expired';
+  is_scheduled: boolean;
   distance_km: number;
   estimated_fare: number;
   final_fare: number;
+  min_price: number | null;
+  max_price: number | null;
+  driver_price: number | null;
   notes: string;
   customer_id: string;
   profiles: {
@@ -38,6 +59,8 @@ interface Ride {
   };
 }
 
+type AvailableRide = Database['public']['Functions']['get_available_rides']['Returns'][number];
+
 const VehicleIcon = ({ type }: { type: string }) => {
   switch (type) {
     case 'car': return <Car className="h-4 w-4" />;
@@ -77,22 +100,18 @@ const DriverDashboard = () => {
     queryFn: async () => {
       if (!driverProfile) return [];
       
-      const { data, error } = await supabase
-        .from('rides')
-        .select(`
-          *,
-          profiles!rides_customer_id_fkey(full_name, phone)
-        `)
-        .eq('status', 'pending')
-        .eq('vehicle_type', driverProfile.vehicle_type)
-        .order('created_at', { ascending: true });
+      // Pending rides for our vehicle type, masked to first name and pickup area
+      const { data, error } = await supabase.rpc('get_available_rides');
       
       if (error) throw error;
-      return data as Ride[];
+      return data as AvailableRide[];
     },
     enabled: !!driverProfile,
   });
 
+  // Live updates: new requests and offers appear, taken requests disappear
+  const { recentRideIds } = useRideBoardRealtime(driverProfile?.vehicle_type, user?.id, !!driverProfile?.is_available);
+
   // Fetch driver's accepted rides
   const { data: myRides = [] } = useQuery({
     queryKey: ['driver-rides'],
@@ -114,6 +133,72 @@ const DriverDashboard = () => {
     enabled: !!driverProfile,
   });
 
+  // How we have responded to targeted offers so far
+  const { data: offerStats } = useQuery({
+    queryKey: ['driver-offer-stats'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('driver_offer_stats')
+        .select('*')
+        .eq('driver_id', user?.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!driverProfile,
+  });
+
+  // Accepted scheduled rides wait in their own section until pickup time
+  const isUpcoming = (ride: Ride) =>
+    ride.is_scheduled && ride.status === 'accepted' && new Date(ride.pickup_time) > new Date();
+  const scheduledRides = myRides.filter(isUpcoming);
+  const currentRides = myRides.filter((ride) => !isUpcoming(ride));
+  const linkedRideId = useLinkedRide(availableRides.length + myRides.length > 0);
+
+  // Ratings: ours as a driver, and each of our customers'
+  const customerRatings = useRatingSummaries(myRides.map((ride) => ride.customer_id), 'customer');
+  const ownRating = useRatingSummaries([user?.id], 'driver')[user?.id ?? ''];
+
+  // Completed rides stay rateable for a day; drop the ones we have rated
+  const { data: unratedRides = [] } = useQuery({
+    queryKey: ['driver-unrated-rides'],
+    queryFn: async () => {
+      const since = new Date(Date.now() - RATING_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from('rides')
+        .select(`
+          id, from_location, to_location, completed_at, final_fare,
+          ride_ratings(rater_id)
+        `)
+        .eq('driver_id', user?.id)
+        .eq('status', 'completed')
+        .gt('completed_at', since)
+        .order('completed_at', { ascending: false });
+
+      if (error) throw error;
+      return data.filter((ride) => !ride.ride_ratings.some((r) => r.rater_id === user?.id));
+    },
+    enabled: !!driverProfile,
+  });
+
+  // Share our position while we can be matched or are serving a customer
+  const onTrip = myRides.some((ride) => ride.status === 'accepted' || ride.status === 'in_progress');
+  const locationSharing = useDriverLocationReporter(!!driverProfile?.is_available || onTrip, onTrip);
+
+  // Tariffs let the driver see the metered fare before completing a ride
+  const { data: fareTariffs = [] } = useQuery({
+    queryKey: ['fare-tariffs'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fare_tariffs')
+        .select('*');
+
+      if (error) throw error;
+      return data as unknown as FareTariff[];
+    },
+  });
+
   useEffect(() => {
     if (driverProfile) {
       setVehicleType(driverProfile.vehicle_type);
@@ -170,41 +255,44 @@ const DriverDashboard = () => {
   // Accept ride mutation
   const acceptRide = useMutation({
     mutationFn: async (rideId: string) => {
-      const { data, error } = await supabase.functions.invoke('accept-ride', {
-        body: { ride_id: rideId }
-      });
-      
-      if (error) throw error;
-      return data;
+      return invokeFunction('accept-ride', { ride_id: rideId });
     },
     onSuccess: () => {
       toast.success('Ride accepted successfully!');
       queryClient.invalidateQueries({ queryKey: ['available-rides'] });
       queryClient.invalidateQueries({ queryKey: ['driver-rides'] });
     },
-    onError: (error: any) => {
-      toast.error(error.message || 'Failed to accept ride');
+    onError: (error: unknown) => {
+      if (error instanceof EdgeFunctionError && error.status === 409) {
+        // Another driver won the race; drop the stale request from the board
+        toast.error('Another driver accepted this ride first');
+        queryClient.invalidateQueries({ queryKey: ['available-rides'] });
+        return;
+      }
+      if (error instanceof EdgeFunctionError && error.status === 410) {
+        // Our offer lapsed and the ride moved on to other drivers
+        toast.error('This ride offer has expired');
+        queryClient.invalidateQueries({ queryKey: ['available-rides'] });
+        return;
+      }
+      toast.error(errorMessage(error, 'Failed to accept ride'));
     },
   });
 
   // Update ride status mutation
   const updateRideStatus = useMutation({
     mutationFn: async ({ rideId, status, distance, fare }: { rideId: string; status: string; distance?: number; fare?: number }) => {
-      const updateData: any = { status };
-      if (distance) updateData.distance_km = distance;
-      if (fare) updateData.final_fare = fare;
-      
-      const { data, error } = await supabase
-        .from('rides')
-        .update(updateData)
-        .eq('id', rideId);
-      
-      if (error) throw error;
-      return data;
+      return invokeFunction('update-ride-status', {
+        ride_id: rideId,
+        status,
+        distance_km: distance,
+        final_fare: fare,
+      });
     },
     onSuccess: () => {
       toast.success('Ride status updated!');
       queryClient.invalidateQueries({ queryKey: ['driver-rides'] });
+      queryClient.invalidateQueries({ queryKey: ['driver-unrated-rides'] });
     },
     onError: (error: any) => {
       toast.error(error.message || 'Failed to update ride status');
@@ -221,17 +309,6 @@ const DriverDashboard = () => {
     });
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'bg-yellow-100 text-yellow-800';
-      case 'accepted': return 'bg-blue-100 text-blue-800';
-      case 'in_progress': return 'bg-green-100 text-green-800';
-      case 'completed': return 'bg-gray-100 text-gray-800';
-      case 'cancelled': return 'bg-red-100 text-red-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   if (isLoading) {
     return <div className="text-center">Loading...</div>;
   }
@@ -322,8 +399,24 @@ const DriverDashboard = () => {
             </div>
           </CardTitle>
           <CardDescription>
-            Vehicle: {driverProfile?.vehicle_type.toUpperCase()} - {driverProfile?.vehicle_number}
+            Vehicle: {driverProfile?.vehicle_type.toUpperCase()} - {driverProfile?.vehicle_number} ·{' '}
+            <RatingBadge summary={ownRating} />
+            {offerStats?.acceptance_rate != null && (
+              <> · Offer acceptance {Math.round(offerStats.acceptance_rate * 100)}% ({offerStats.offers_accepted}/{offerStats.offers_received})</>
+            )}
+            {' · '}
+            <Link to="/earnings" className="underline underline-offset-4">View earnings</Link>
           </CardDescription>
+          {(driverProfile?.is_available || onTrip) && (
+            <p className={cn('text-xs', locationSharing.error ? 'text-destructive' : 'text-muted-foreground')}>
+              {locationSharing.error
+                ? locationSharing.error
+                : locationSharing.lastReportedAt
+                  ? `Sharing location · updated ${locationSharing.lastReportedAt.toLocaleTimeString()}`
+                  : 'Waiting for your location…'}
+              {locationSharing.lowBattery && ' · battery saver'}
+            </p>
+          )}
         </CardHeader>
       </Card>
 
@@ -346,27 +439,59 @@ const DriverDashboard = () => {
           ) : (
             <div className="space-y-4">
               {availableRides.map((ride) => (
-                <div key={ride.id} className="border rounded-lg p-4">
+                <div
+                  key={ride.id}
+                  id={`ride-${ride.id}`}
+                  className={cn(
+                    'border rounded-lg p-4 transition-shadow',
+                    (recentRideIds.includes(ride.id) || ride.id === linkedRideId) && 'ring-2 ring-primary shadow-md'
+                  )}
+                >
                   <div className="flex justify-between items-start mb-2">
                     <div className="flex items-center gap-2">
                       <VehicleIcon type={ride.vehicle_type} />
                       <span className="font-medium">{ride.vehicle_type.toUpperCase()}</span>
+                      {ride.offer_expires_at && (
+                        <Badge variant="secondary">
+                          Offered to you · {ride.offer_distance_km} km away · until{' '}
+                          {new Date(ride.offer_expires_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <DeclineRideDialog
+                        rideId={ride.id}
+                        onDeclined={() => queryClient.invalidateQueries({ queryKey: ['available-rides'] })}
+                      />
+                      <Button 
+                        size="sm"
+                        onClick={() => acceptRide.mutate(ride.id)}
+                        disabled={acceptRide.isPending}
+                      >
+                        Accept
+                      </Button>
                     </div>
-                    <Button 
-                      size="sm"
-                      onClick={() => acceptRide.mutate(ride.id)}
-                      disabled={acceptRide.isPending}
-                    >
-                      Accept
-                    </Button>
                   </div>
                   <div className="space-y-1 text-sm">
-                    <p><strong>Customer:</strong> {ride.profiles?.full_name} ({ride.profiles?.phone})</p>
-                    <p><strong>From:</strong> {ride.from_location}</p>
-                    <p><strong>To:</strong> {ride.to_location}</p>
+                    <p><strong>Customer:</strong> {ride.customer_first_name || 'Customer'}</p>
+                    <p><strong>Pickup Area:</strong> {ride.pickup_area || 'Shared after you accept'}</p>
+                    <p><strong>Drop-off Area:</strong> {ride.dropoff_area || 'Shared after you accept'}</p>
+                    {ride.distance_km != null && <p><strong>Distance:</strong> {ride.distance_km} km</p>}
                     <p><strong>Pickup:</strong> {new Date(ride.pickup_time).toLocaleString()}</p>
+                    {ride.driver_price != null && (
+                      <p>
+                        <strong>Offered Price:</strong> ₹{ride.driver_price}
+                        <span className="text-muted-foreground"> (range ₹{ride.min_price} - ₹{ride.max_price})</span>
+                      </p>
+                    )}
                     {ride.notes && <p><strong>Notes:</strong> {ride.notes}</p>}
                   </div>
+                  {ride.min_price != null && (
+                    <CounterOfferForm
+                      ride={ride}
+                      onSubmitted={() => queryClient.invalidateQueries({ queryKey: ['available-rides'] })}
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -374,6 +499,70 @@ const DriverDashboard = () => {
         </CardContent>
       </Card>
 
+      {unratedRides.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Star className="h-5 w-5" />
+              Rate Recent Rides
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {unratedRides.map((ride) => (
+                <div
+                  key={ride.id}
+                  id={`ride-${ride.id}`}
+                  className={cn('border rounded-lg p-4 space-y-2 text-sm', ride.id === linkedRideId && 'ring-2 ring-primary')}
+                >
+                  <p><strong>{ride.from_location}</strong> → <strong>{ride.to_location}</strong></p>
+                  <p className="text-muted-foreground">
+                    Completed {new Date(ride.completed_at!).toLocaleString()}
+                    {ride.final_fare != null && ` · ₹${ride.final_fare}`}
+                  </p>
+                  <RateRideDialog
+                    rideId={ride.id}
+                    ratee="customer"
+                    onRated={() => queryClient.invalidateQueries({ queryKey: ['driver-unrated-rides'] })}
+                  />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {scheduledRides.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Scheduled
+            </CardTitle>
+            <CardDescription>Booked rides you have accepted ahead of pickup</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {scheduledRides.map((ride) => (
+                <RideCard 
+                  key={ride.id} 
+                  ride={ride} 
+                  highlighted={ride.id === linkedRideId}
+                  tariff={fareTariffs.find((t) => t.vehicle_type === ride.vehicle_type)}
+                  customerRating={customerRatings[ride.customer_id]}
+                  onUpdateStatus={updateRideStatus.mutate} 
+                  isUpdating={updateRideStatus.isPending}
+                  onCancelled={() => {
+                    queryClient.invalidateQueries({ queryKey: ['driver-rides'] });
+                    queryClient.invalidateQueries({ queryKey: ['available-rides'] });
+                  }}
+                />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -382,16 +571,23 @@ const DriverDashboard = () => {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          {myRides.length === 0 ? (
+          {currentRides.length === 0 ? (
             <p className="text-muted-foreground text-center py-8">No active rides</p>
           ) : (
             <div className="space-y-4">
-              {myRides.map((ride) => (
+              {currentRides.map((ride) => (
                 <RideCard 
                   key={ride.id} 
                   ride={ride} 
+                  highlighted={ride.id === linkedRideId}
+                  tariff={fareTariffs.find((t) => t.vehicle_type === ride.vehicle_type)}
+                  customerRating={customerRatings[ride.customer_id]}
                   onUpdateStatus={updateRideStatus.mutate} 
                   isUpdating={updateRideStatus.isPending}
+                  onCancelled={() => {
+                    queryClient.invalidateQueries({ queryKey: ['driver-rides'] });
+                    queryClient.invalidateQueries({ queryKey: ['available-rides'] });
+                  }}
                 />
               ))}
             </div>
@@ -402,24 +598,80 @@ const DriverDashboard = () => {
   );
 };
 
-const RideCard = ({ ride, onUpdateStatus, isUpdating }: { 
+// Lets the driver bid a different price within the customer's range
+const CounterOfferForm = ({ ride, onSubmitted }: { ride: AvailableRide; onSubmitted: () => void }) => {
+  const [amount, setAmount] = useState('');
+  const value = Number(amount);
+  const valid = amount !== '' && isWithinPriceRange(value, ride);
+
+  const submitBid = useMutation({
+    mutationFn: async () => {
+      return invokeFunction('submit-ride-bid', { ride_id: ride.id, amount: value });
+    },
+    onSuccess: () => {
+      toast.success('Counter-offer sent to the customer');
+      setAmount('');
+      onSubmitted();
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to send counter-offer'));
+    },
+  });
+
+  return (
+    <div className="mt-3 space-y-1">
+      {ride.my_bid_amount != null && (
+        <p className="text-sm text-muted-foreground">Your offer: ₹{ride.my_bid_amount} · waiting for the customer</p>
+      )}
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          placeholder={`₹${ride.min_price} - ₹${ride.max_price}`}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          min={ride.min_price}
+          max={ride.max_price}
+          step="10"
+          className="h-9"
+        />
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => submitBid.mutate()}
+          disabled={!valid || submitBid.isPending}
+        >
+          {ride.my_bid_amount != null ? 'Update Offer' : 'Counter-Offer'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const RideCard = ({ ride, highlighted, tariff, customerRating, onUpdateStatus, isUpdating, onCancelled }: { 
   ride: Ride; 
+  highlighted: boolean;
+  tariff?: FareTariff;
+  customerRating?: RatingSummary;
   onUpdateStatus: (data: any) => void; 
   isUpdating: boolean;
+  onCancelled: () => void;
 }) => {
   const [distance, setDistance] = useState(ride.distance_km?.toString() || '');
-  const [fare, setFare] = useState(ride.final_fare?.toString() || ride.estimated_fare?.toString() || '');
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'bg-yellow-100 text-yellow-800';
-      case 'accepted': return 'bg-blue-100 text-blue-800';
-      case 'in_progress': return 'bg-green-100 text-green-800';
-      case 'completed': return 'bg-gray-100 text-gray-800';
-      case 'cancelled': return 'bg-red-100 text-red-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
+  const [fare, setFare] = useState(
+    ride.final_fare?.toString() || ride.driver_price?.toString() || ride.estimated_fare?.toString() || ''
+  );
+  const [waitingMinutes, setWaitingMinutes] = useState('');
+  const hasPriceRange = ride.min_price != null && ride.max_price != null;
+
+  const meteredFare = (() => {
+    const distanceNum = parseFloat(distance);
+    if (!tariff || !Number.isFinite(distanceNum) || distanceNum < 0) return null;
+    // The preview must never throw mid-render, so a negative wait counts as none
+    return calculateFare(
+      { distanceKm: distanceNum, pickupTime: ride.pickup_time, waitingMinutes: Math.max(0, parseInt(waitingMinutes) || 0) },
+      tariff
+    );
+  })();
 
   const handleStatusUpdate = (newStatus: string) => {
     if (newStatus === 'completed') {
@@ -427,11 +679,16 @@ const RideCard = ({ ride, onUpdateStatus, isUpdating }: {
         toast.error('Please enter distance and fare before completing the ride');
         return;
       }
+      const fareNum = parseFloat(fare);
+      if (hasPriceRange && (fareNum < ride.min_price! || fareNum > ride.max_price!)) {
+        toast.error(`Fare must be between ₹${ride.min_price} and ₹${ride.max_price} as agreed with the customer`);
+        return;
+      }
       onUpdateStatus({ 
         rideId: ride.id, 
         status: newStatus, 
         distance: parseFloat(distance), 
-        fare: parseFloat(fare) 
+        fare: fareNum 
       });
     } else {
       onUpdateStatus({ rideId: ride.id, status: newStatus });
@@ -439,7 +696,7 @@ const RideCard = ({ ride, onUpdateStatus, isUpdating }: {
   };
 
   return (
-    <div className="border rounded-lg p-4">
+    <div id={`ride-${ride.id}`} className={cn('border rounded-lg p-4', highlighted && 'ring-2 ring-primary')}>
       <div className="flex justify-between items-start mb-2">
         <div className="flex items-center gap-2">
           <VehicleIcon type={ride.vehicle_type} />
@@ -450,10 +707,20 @@ const RideCard = ({ ride, onUpdateStatus, isUpdating }: {
         </Badge>
       </div>
       <div className="space-y-1 text-sm mb-4">
-        <p><strong>Customer:</strong> {ride.profiles?.full_name} ({ride.profiles?.phone})</p>
+        {ride.profiles ? (
+          <p>
+            <strong>Customer:</strong> {ride.profiles.full_name} ({ride.profiles.phone}){' '}
+            <RatingBadge summary={customerRating} />
+          </p>
+        ) : (
+          <p className="text-muted-foreground">Customer contact details are no longer available</p>
+        )}
         <p><strong>From:</strong> {ride.from_location}</p>
         <p><strong>To:</strong> {ride.to_location}</p>
         <p><strong>Pickup:</strong> {new Date(ride.pickup_time).toLocaleString()}</p>
+        {hasPriceRange && (
+          <p><strong>Agreed Range:</strong> ₹{ride.min_price} - ₹{ride.max_price}</p>
+        )}
         {ride.notes && <p><strong>Notes:</strong> {ride.notes}</p>}
       </div>
 
@@ -467,23 +734,37 @@ const RideCard = ({ ride, onUpdateStatus, isUpdating }: {
           >
             Start Ride
           </Button>
+          <CancelRideDialog rideId={ride.id} party="driver" onCancelled={onCancelled} />
         </div>
       )}
 
       {ride.status === 'in_progress' && (
         <div className="space-y-3">
-          <div className="grid grid-cols-2 gap-2">
+          <div className="grid grid-cols-3 gap-2">
             <div>
               <Label htmlFor={`distance-${ride.id}`}>Distance (km)</Label>
               <Input
                 id={`distance-${ride.id}`}
                 type="number"
                 step="0.1"
+                min="0"
                 placeholder="0.0"
                 value={distance}
                 onChange={(e) => setDistance(e.target.value)}
               />
             </div>
+            <div>
+              <Label htmlFor={`waiting-${ride.id}`}>Waiting (min)</Label>
+              <Input
+                id={`waiting-${ride.id}`}
+                type="number"
+                step="1"
+                min="0"
+                placeholder="0"
+                value={waitingMinutes}
+                onChange={(e) => setWaitingMinutes(e.target.value)}
+              />
+            </div>
             <div>
               <Label htmlFor={`fare-${ride.id}`}>Fare (₹)</Label>
               <Input
@@ -491,11 +772,26 @@ const RideCard = ({ ride, onUpdateStatus, isUpdating }: {
                 type="number"
                 step="0.01"
                 placeholder="0.00"
+                min={ride.min_price ?? undefined}
+                max={ride.max_price ?? undefined}
                 value={fare}
                 onChange={(e) => setFare(e.target.value)}
               />
             </div>
           </div>
+          {meteredFare && (
+            <div className="flex items-center justify-between bg-muted/50 p-2 rounded-lg text-sm">
+              <span>
+                <strong>Metered fare:</strong> ₹{meteredFare.total}
+                <span className="text-muted-foreground">
+                  {' '}({meteredFare.line_items.map((item) => item.label).join(', ')})
+                </span>
+              </span>
+              <Button size="sm" variant="outline" onClick={() => setFare(meteredFare.total.toString())}>
+                Use
+              </Button>
+            </div>
+          )}
           <Button 
             size="sm" 
             onClick={() => handleStatusUpdate('completed')}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { Navigation } from 'lucide-react';
+import { useDriverLocation } from '@/hooks/useDriverLocation';
+import { estimateTravelMinutes, haversineKm, isValidCoordinates } from '@/lib/geo';
+
+// Rough city speed for the ETA; the driver's own speed is too noisy at low speeds
+const CITY_SPEED_KMPH = 20;
+
+interface DriverLocationProps {
+  ride: {
+    id: string;
+    status: string;
+    from_latitude: number | null;
+    from_longitude: number | null;
+    to_latitude: number | null;
+    to_longitude: number | null;
+  };
+}
+
+const secondsAgo = (value: string, now: number) => Math.max(0, Math.round((now - new Date(value).getTime()) / 1000));
+
+const formatAge = (seconds: number) =>
+  seconds < 60 ? `${seconds}s ago` : `${Math.round(seconds / 60)} min ago`;
+
+const DriverLocation = ({ ride }: DriverLocationProps) => {
+  const tracking = ride.status === 'accepted' || ride.status === 'in_progress';
+  const { data: location } = useDriverLocation(ride.id, tracking);
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the "updated … ago" label honest between reports
+  useEffect(() => {
+    if (!tracking) return;
+    const interval = setInterval(() => setNow(Date.now()), 10_000);
+    return () => clearInterval(interval);
+  }, [tracking]);
+
+  if (!tracking) return null;
+
+  if (!location) {
+    return <p className="text-xs text-muted-foreground">Waiting for the driver's location…</p>;
+  }
+
+  const driver = { latitude: Number(location.latitude), longitude: Number(location.longitude) };
+  // Before pickup we measure to the pickup point, afterwards to the destination
+  const target = ride.status === 'accepted'
+    ? { latitude: ride.from_latitude, longitude: ride.from_longitude }
+    : { latitude: ride.to_latitude, longitude: ride.to_longitude };
+  const distance = isValidCoordinates(target) ? haversineKm(driver, target) : null;
+  const minutes = distance != null ? estimateTravelMinutes(distance, CITY_SPEED_KMPH) : null;
+
+  return (
+    <div className="flex items-start gap-2 rounded-md bg-muted p-2 text-xs">
+      <Navigation className="h-4 w-4 mt-0.5 text-primary" />
+      <div className="space-y-0.5">
+        {distance != null ? (
+          <p>
+            Driver is {distance} km from {ride.status === 'accepted' ? 'your pickup' : 'your destination'}
+            {minutes != null && ` (about ${minutes} min)`}
+          </p>
+        ) : (
+          <p>Driver location is being shared</p>
+        )}
+        <p className="text-muted-foreground">
+          Updated {formatAge(secondsAgo(location.recorded_at, now))} ·{' '}
+          <a
+            href={`https://www.openstreetmap.org/?mlat=${driver.latitude}&mlon=${driver.longitude}#map=16/${driver.latitude}/${driver.longitude}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline"
+          >
+            View on map
+          </a>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DriverLocation;
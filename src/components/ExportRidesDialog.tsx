@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { EXPORT_FORMATS, ExportFormat, exportFilename, MAX_EXPORT_DAYS } from '@/lib/export';
+import { errorMessage } from '@/lib/errors';
+import { fetchFunction } from '@/lib/functions';
+import { saveFile } from '@/lib/download';
+import { toast } from 'sonner';
+import { Download } from 'lucide-react';
+
+// yyyy-mm-dd for a date input, from the local calendar date
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const ExportRidesDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+
+  const exportRides = useMutation({
+    mutationFn: async () => {
+      // Dates are picked in local time; the end date includes the whole day
+      const from = new Date(`${fromDate}T00:00:00`).toISOString();
+      const to = new Date(new Date(`${toDate}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString();
+      const utcOffsetMinutes = -new Date().getTimezoneOffset();
+      const response = await fetchFunction('export-rides', { format, from, to, utc_offset_minutes: utcOffsetMinutes });
+
+      // Saved exactly as streamed, under the name the function chose
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? exportFilename(format, from, to, utcOffsetMinutes);
+      return { blob: await response.blob(), filename };
+    },
+    onSuccess: ({ blob, filename }) => {
+      saveFile(blob, filename, blob.type);
+      setOpen(false);
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to export rides'));
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export rides</DialogTitle>
+          <DialogDescription>
+            Download rides with pickup times in this range, up to {MAX_EXPORT_DAYS} days at a time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-from">From</Label>
+              <Input
+                id="export-from"
+                type="date"
+                value={fromDate}
+                max={toDate}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-to">To</Label>
+              <Input
+                id="export-to"
+                type="date"
+                value={toDate}
+                min={fromDate}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="flex gap-6">
+            {EXPORT_FORMATS.map((option) => (
+              <div key={option} className="flex items-center space-x-2">
+                <RadioGroupItem value={option} id={`export-format-${option}`} />
+                <Label htmlFor={`export-format-${option}`}>{option.toUpperCase()}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => exportRides.mutate()}
+            disabled={!fromDate || !toDate || exportRides.isPending}
+          >
+            {exportRides.isPending ? 'Exporting...' : 'Download'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportRidesDialog;
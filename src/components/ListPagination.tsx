@@ -0,0 +1,70 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+
+interface ListPaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+// Page numbers to show around the current page, with null marking a gap
+const pageWindow = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const sorted = [...pages].filter((p) => p >= 1 && p <= pageCount).sort((a, b) => a - b);
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? [null, p] : [p]));
+};
+
+// Numbered pager for server-paginated lists; renders nothing for a single page
+const ListPagination = ({ page, pageCount, onPageChange }: ListPaginationProps) => {
+  if (pageCount <= 1) {
+    return null;
+  }
+
+  const goToPage = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount) onPageChange(target);
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goToPage(page - 1)}
+            aria-disabled={page === 1}
+            className={page === 1 ? 'pointer-events-none opacity-50' : undefined}
+          />
+        </PaginationItem>
+        {pageWindow(page, pageCount).map((p, i) => (
+          <PaginationItem key={p ?? `gap-${i}`}>
+            {p === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={p === page} onClick={goToPage(p)}>
+                {p}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goToPage(page + 1)}
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? 'pointer-events-none opacity-50' : undefined}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default ListPagination;
@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import PlaceIcon from '@/components/PlaceIcon';
+import SavedPlacesDialog from '@/components/SavedPlacesDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { geocoder, isResolved, normalizeAddress, PickedLocation } from '@/lib/geocoder';
+import { SavedPlaceKind, useSavedPlaces } from '@/hooks/useSavedPlaces';
+import { cn } from '@/lib/utils';
+import { Briefcase, CheckCircle2, Home, Loader2, MapPin, MapPinOff, Search, Star } from 'lucide-react';
+
+interface LocationPickerProps {
+  id: string;
+  label: string;
+  placeholder: string;
+  value: PickedLocation;
+  onChange: (location: PickedLocation) => void;
+}
+
+const LocationPicker = ({ id, label, placeholder, value, onChange }: LocationPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<'idle' | 'resolving' | 'not_found'>('idle');
+  const [resolvedName, setResolvedName] = useState('');
+  const { savedPlaces, savePlace } = useSavedPlaces();
+
+  // Seeded popular places, shared by both pickers through the query cache
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('locations')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data.filter((location) => location.latitude != null && location.longitude != null);
+    },
+  });
+
+  // Resolve typed addresses to coordinates once the customer stops typing
+  useEffect(() => {
+    if (!value.address.trim() || isResolved(value)) {
+      setStatus('idle');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('resolving');
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await geocoder.geocode(value.address);
+        if (cancelled) return;
+        if (result) {
+          setResolvedName(result.name);
+          setStatus('idle');
+          onChange({ address: value.address, latitude: result.latitude, longitude: result.longitude });
+        } else {
+          setStatus('not_found');
+        }
+      } catch (error) {
+        console.error('Error resolving location:', error);
+        if (!cancelled) setStatus('not_found');
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [value, onChange]);
+
+  const query = normalizeAddress(search);
+  const matches = (...fields: string[]) => fields.some((field) => normalizeAddress(field).includes(query));
+  const savedMatches = savedPlaces.filter((place) => matches(place.label, place.address));
+  const locationMatches = locations.filter((location) => matches(location.name, location.address));
+  const isSaved = savedPlaces.some((place) => place.address === value.address);
+
+  const pick = (name: string, address: string, latitude: number, longitude: number) => {
+    setResolvedName(name);
+    onChange({ address, latitude: Number(latitude), longitude: Number(longitude) });
+    setOpen(false);
+    setSearch('');
+  };
+
+  const chooseTypedAddress = () => {
+    setResolvedName('');
+    onChange({ address: search.trim(), latitude: null, longitude: null });
+    setOpen(false);
+    setSearch('');
+  };
+
+  const saveAs = (kind: SavedPlaceKind) => {
+    savePlace.mutate({
+      kind,
+      label: kind === 'home' ? 'Home' : kind === 'work' ? 'Work' : resolvedName || value.address.split(',')[0],
+      address: value.address,
+      latitude: value.latitude!,
+      longitude: value.longitude!,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      {savedPlaces.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {savedPlaces.slice(0, 4).map((place) => (
+            <Button
+              key={place.id}
+              type="button"
+              size="sm"
+              variant={value.address === place.address ? 'default' : 'outline'}
+              className="h-7 gap-1 px-2 text-xs"
+              onClick={() => pick(place.label, place.address, place.latitude, place.longitude)}
+            >
+              <PlaceIcon kind={place.kind} />
+              {place.label}
+            </Button>
+          ))}
+          <SavedPlacesDialog />
+        </div>
+      )}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn('w-full justify-start font-normal', !value.address && 'text-muted-foreground')}
+          >
+            <MapPin className="mr-2 h-4 w-4 shrink-0 opacity-50" />
+            <span className="truncate">{value.address || placeholder}</span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput
+              placeholder="Search places or type an address"
+              value={search}
+              onValueChange={setSearch}
+            />
+            <CommandList>
+              <CommandEmpty>No places found.</CommandEmpty>
+              {search.trim() && (
+                <CommandGroup>
+                  <CommandItem value={`typed:${search}`} onSelect={chooseTypedAddress}>
+                    <Search className="mr-2 h-4 w-4" />
+                    Use "{search.trim()}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+              {savedMatches.length > 0 && (
+                <CommandGroup heading="Saved places">
+                  {savedMatches.map((place) => (
+                    <CommandItem
+                      key={place.id}
+                      value={`saved:${place.id}`}
+                      onSelect={() => pick(place.label, place.address, place.latitude, place.longitude)}
+                    >
+                      <PlaceIcon kind={place.kind} />
+                      <div className="ml-2">
+                        <p>{place.label}</p>
+                        <p className="text-xs text-muted-foreground">{place.address}</p>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {locationMatches.length > 0 && (
+                <CommandGroup heading="Popular places">
+                  {locationMatches.map((location) => (
+                    <CommandItem
+                      key={location.id}
+                      value={`location:${location.id}`}
+                      onSelect={() => pick(location.name, location.address, location.latitude!, location.longitude!)}
+                    >
+                      <MapPin className="mr-2 h-4 w-4" />
+                      <div>
+                        <p>{location.name}</p>
+                        <p className="text-xs text-muted-foreground">{location.address}</p>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {status === 'resolving' && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Finding location...
+        </p>
+      )}
+      {status === 'not_found' && (
+        <p className="flex items-center gap-1 text-xs text-destructive">
+          <MapPinOff className="h-3 w-3" />
+          We couldn't find this address. Try a nearby landmark or area name.
+        </p>
+      )}
+      {isResolved(value) && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <CheckCircle2 className="h-3 w-3 text-green-600" />
+            {resolvedName && `${resolvedName} · `}
+            {value.latitude!.toFixed(4)}, {value.longitude!.toFixed(4)}
+          </p>
+          {!isSaved && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" size="sm" variant="ghost" className="h-6 px-2 text-xs">
+                  Save place
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => saveAs('home')}>
+                  <Home className="mr-2 h-4 w-4" />
+                  Save as Home
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => saveAs('work')}>
+                  <Briefcase className="mr-2 h-4 w-4" />
+                  Save as Work
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => saveAs('custom')}>
+                  <Star className="mr-2 h-4 w-4" />
+                  Save as favourite
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAuth } from '@/hooks/useAuth';
+import { RideNotification, useNotifications } from '@/hooks/useNotifications';
+import { cn } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+
+// Customers see finished rides on their receipt or history; everything else
+// is on the dashboard
+const rideLink = (ride: NonNullable<RideNotification['rides']>, userId: string | undefined) => {
+  if (ride.customer_id === userId) {
+    if (ride.status === 'completed') return `/rides/${ride.id}/receipt`;
+    if (ride.status === 'cancelled' || ride.status === 'expired') return '/rides/history';
+  }
+  return `/?ride=${ride.id}`;
+};
+
+const NotificationBell = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+
+  const openNotification = (notification: RideNotification) => {
+    if (!notification.is_read) markAsRead.mutate(notification.id);
+    if (notification.rides) {
+      setOpen(false);
+      navigate(rideLink(notification.rides, user?.id));
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs text-destructive-foreground">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h3 className="font-semibold">Notifications</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => markAllAsRead.mutate()}
+            disabled={unreadCount === 0 || markAllAsRead.isPending}
+          >
+            Mark all read
+          </Button>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-muted-foreground text-center text-sm py-8">No notifications yet</p>
+        ) : (
+          <ScrollArea className="h-96">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => openNotification(notification)}
+                className={cn(
+                  'w-full border-b px-4 py-3 text-left text-sm transition-colors hover:bg-muted/50',
+                  !notification.is_read && 'bg-primary/5'
+                )}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.is_read && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                  <div className="space-y-1">
+                    <p>{notification.message}</p>
+                    {notification.rides && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="truncate">
+                          {notification.rides.from_location} → {notification.rides.to_location}
+                        </span>
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                          {notification.rides.status.replace('_', ' ').toUpperCase()}
+                        </Badge>
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
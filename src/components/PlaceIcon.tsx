@@ -0,0 +1,12 @@
+import type { SavedPlaceKind } from '@/hooks/useSavedPlaces';
+import { Briefcase, Home, Star } from 'lucide-react';
+
+const PlaceIcon = ({ kind }: { kind: SavedPlaceKind }) => {
+  switch (kind) {
+    case 'home': return <Home className="h-4 w-4" />;
+    case 'work': return <Briefcase className="h-4 w-4" />;
+    default: return <Star className="h-4 w-4" />;
+  }
+};
+
+export default PlaceIcon;
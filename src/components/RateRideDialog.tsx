@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { MAX_RATING_COMMENT_LENGTH, RATING_TAGS, RatedParty } from '@/lib/ratings';
+import { invokeFunction } from '@/lib/functions';
+import { cn } from '@/lib/utils';
+import { errorMessage } from '@/lib/errors';
+import { toast } from 'sonner';
+
+interface RateRideDialogProps {
+  rideId: string;
+  // The party being rated
+  ratee: RatedParty;
+  onRated: () => void;
+}
+
+const RateRideDialog = ({ rideId, ratee, onRated }: RateRideDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [tags, setTags] = useState<string[]>([]);
+  const [comment, setComment] = useState('');
+
+  const rateRide = useMutation({
+    mutationFn: async () => {
+      return invokeFunction('rate-ride', {
+        ride_id: rideId,
+        rating,
+        tags,
+        comment: comment || null,
+      });
+    },
+    onSuccess: () => {
+      toast.success('Thanks for your feedback!');
+      setOpen(false);
+      setRating(0);
+      setTags([]);
+      setComment('');
+      onRated();
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to submit rating'));
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="w-full">
+          Rate Your {ratee === 'driver' ? 'Driver' : 'Customer'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>How was your {ratee === 'driver' ? 'driver' : 'customer'}?</DialogTitle>
+          <DialogDescription>You can rate each ride once.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-center gap-1">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                type="button"
+                aria-label={`${value} star${value > 1 ? 's' : ''}`}
+                onClick={() => setRating(value)}
+              >
+                <Star
+                  className={cn(
+                    'h-8 w-8',
+                    value <= rating ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+                  )}
+                />
+              </button>
+            ))}
+          </div>
+          <ToggleGroup
+            type="multiple"
+            value={tags}
+            onValueChange={setTags}
+            className="flex-wrap justify-start"
+          >
+            {RATING_TAGS[ratee].map((tag) => (
+              <ToggleGroupItem key={tag.code} value={tag.code} size="sm" variant="outline">
+                {tag.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <div className="space-y-2">
+            <Label htmlFor={`${rideId}-rating-comment`}>Comment (Optional)</Label>
+            <Textarea
+              id={`${rideId}-rating-comment`}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              maxLength={MAX_RATING_COMMENT_LENGTH}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Later
+          </Button>
+          <Button
+            onClick={() => rateRide.mutate()}
+            disabled={rating === 0 || rateRide.isPending}
+          >
+            {rateRide.isPending ? 'Submitting...' : 'Submit Rating'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RateRideDialog;
@@ -0,0 +1,12 @@
+import { Star } from 'lucide-react';
+import type { RatingSummary } from '@/hooks/useRatingSummaries';
+
+// "★ 4.8 (23)", or "New" for someone nobody has rated yet
+const RatingBadge = ({ summary }: { summary?: RatingSummary }) => (
+  <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+    <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+    {summary ? `${summary.average_rating.toFixed(1)} (${summary.rating_count})` : 'New'}
+  </span>
+);
+
+export default RatingBadge;
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { invokeFunction } from '@/lib/functions';
+import { errorMessage } from '@/lib/errors';
+import { toast } from 'sonner';
+
+interface ReassignRideDialogProps {
+  rideId: string;
+  vehicleType: Database['public']['Enums']['vehicle_type'];
+  currentDriverId: string | null;
+  onReassigned: () => void;
+}
+
+const ReassignRideDialog = ({ rideId, vehicleType, currentDriverId, onReassigned }: ReassignRideDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [driverId, setDriverId] = useState('');
+  const [note, setNote] = useState('');
+
+  // Available drivers with the right vehicle who are not suspended
+  const { data: drivers = [] } = useQuery({
+    queryKey: ['admin-drivers', vehicleType],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('driver_profiles')
+        .select('user_id, vehicle_number, profiles!inner(full_name, suspended_at)')
+        .eq('vehicle_type', vehicleType)
+        .eq('is_available', true)
+        .is('profiles.suspended_at', null);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const reassignRide = useMutation({
+    mutationFn: async () => {
+      return invokeFunction('admin-actions', {
+        action: 'reassign_ride',
+        ride_id: rideId,
+        driver_id: driverId,
+        note: note || null,
+      });
+    },
+    onSuccess: () => {
+      toast.success('Ride reassigned');
+      setOpen(false);
+      setDriverId('');
+      setNote('');
+      onReassigned();
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to reassign ride'));
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          Reassign
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reassign this ride</DialogTitle>
+          <DialogDescription>
+            The ride is accepted on the new driver's behalf. The customer and both drivers are notified.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Driver</Label>
+            <Select value={driverId} onValueChange={setDriverId}>
+              <SelectTrigger>
+                <SelectValue placeholder={`Choose a ${vehicleType} driver`} />
+              </SelectTrigger>
+              <SelectContent>
+                {drivers
+                  .filter((driver) => driver.user_id !== currentDriverId)
+                  .map((driver) => (
+                    <SelectItem key={driver.user_id} value={driver.user_id}>
+                      {driver.profiles.full_name || 'Unnamed driver'} · {driver.vehicle_number}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${rideId}-reassign-note`}>Note (Optional)</Label>
+            <Textarea
+              id={`${rideId}-reassign-note`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => reassignRide.mutate()}
+            disabled={!driverId || reassignRide.isPending}
+          >
+            {reassignRide.isPending ? 'Reassigning...' : 'Reassign Ride'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReassignRideDialog;
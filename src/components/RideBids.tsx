@@ -0,0 +1,65 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { useRideBids } from '@/hooks/useRideBids';
+import { invokeFunction } from '@/lib/functions';
+import { errorMessage } from '@/lib/errors';
+import { toast } from 'sonner';
+
+interface RideBidsProps {
+  ride: {
+    id: string;
+    status: string;
+    min_price: number | null;
+  };
+}
+
+// Drivers' counter-offers on a pending ride; picking one assigns that driver
+const RideBids = ({ ride }: RideBidsProps) => {
+  const queryClient = useQueryClient();
+  const biddable = ride.status === 'pending' && ride.min_price != null;
+  const { data: bids = [] } = useRideBids(ride.id, biddable);
+
+  const acceptBid = useMutation({
+    mutationFn: async (bidId: string) => {
+      return invokeFunction('accept-ride-bid', { bid_id: bidId });
+    },
+    onSuccess: () => {
+      toast.success('Offer accepted. Your driver is on the way!');
+      queryClient.invalidateQueries({ queryKey: ['customer-rides'] });
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to accept offer'));
+      queryClient.invalidateQueries({ queryKey: ['ride-bids', ride.id] });
+    },
+  });
+
+  if (!biddable || bids.length === 0) return null;
+
+  return (
+    <div className="space-y-2 pt-2">
+      <p className="font-medium">Driver Offers</p>
+      {bids.map((bid) => (
+        <div key={bid.id} className="flex items-center justify-between rounded-md border p-2">
+          <div>
+            <p>
+              <strong>₹{bid.amount}</strong> from {bid.driver_first_name || 'a driver'}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {bid.acceptance_rate != null && `${Math.round(bid.acceptance_rate * 100)}% offer acceptance · `}
+              {new Date(bid.updated_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => acceptBid.mutate(bid.id)}
+            disabled={acceptBid.isPending}
+          >
+            Accept Offer
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RideBids;
@@ -0,0 +1,63 @@
+import { cn } from '@/lib/utils';
+import { CheckCircle2, Circle, XCircle } from 'lucide-react';
+
+interface RideTimelineProps {
+  ride: {
+    status: string;
+    created_at: string;
+    accepted_at: string | null;
+    started_at: string | null;
+    completed_at: string | null;
+    cancelled_at: string | null;
+    expired_at?: string | null;
+  };
+}
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : null;
+
+const RideTimeline = ({ ride }: RideTimelineProps) => {
+  const steps = [
+    { label: 'Requested', at: ride.created_at },
+    { label: 'Accepted', at: ride.accepted_at },
+    { label: 'Started', at: ride.started_at },
+    { label: 'Completed', at: ride.completed_at },
+  ];
+
+  if (ride.status === 'cancelled' || ride.status === 'expired') {
+    // Show how far the ride got before it was cancelled or expired
+    const reached = steps.filter((step) => step.at);
+    reached.push(ride.status === 'cancelled'
+      ? { label: 'Cancelled', at: ride.cancelled_at }
+      : { label: 'Expired', at: ride.expired_at ?? null });
+    steps.splice(0, steps.length, ...reached);
+  }
+
+  const isEnd = (label: string) => label === 'Cancelled' || label === 'Expired';
+
+  return (
+    <ol className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs">
+      {steps.map((step, index) => {
+        const done = !!step.at;
+        const Icon = isEnd(step.label) ? XCircle : done ? CheckCircle2 : Circle;
+        return (
+          <li key={step.label} className="flex items-center gap-1">
+            {index > 0 && <span className={cn('h-px w-4', done ? 'bg-primary' : 'bg-border')} />}
+            <Icon
+              className={cn(
+                'h-3.5 w-3.5',
+                isEnd(step.label) ? 'text-destructive' : done ? 'text-primary' : 'text-muted-foreground'
+              )}
+            />
+            <span className={cn(!done && 'text-muted-foreground')}>
+              {step.label}
+              {done && ` ${formatTime(step.at)}`}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default RideTimeline;
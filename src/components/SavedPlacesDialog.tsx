@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import PlaceIcon from '@/components/PlaceIcon';
+import { SavedPlace, useSavedPlaces } from '@/hooks/useSavedPlaces';
+import { Check, Trash2 } from 'lucide-react';
+
+// One saved place; favourites can be renamed, Home and Work keep their label
+const SavedPlaceRow = ({ place }: { place: SavedPlace }) => {
+  const { renamePlace, deletePlace } = useSavedPlaces();
+  const [label, setLabel] = useState(place.label);
+  const renamed = label.trim() !== '' && label.trim() !== place.label;
+
+  return (
+    <div className="flex items-center gap-2 border rounded-lg p-2">
+      <PlaceIcon kind={place.kind} />
+      <div className="flex-1 min-w-0 space-y-1">
+        {place.kind === 'custom' ? (
+          <Input
+            aria-label="Place name"
+            className="h-8"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+        ) : (
+          <p className="text-sm font-medium">{place.label}</p>
+        )}
+        <p className="text-xs text-muted-foreground truncate">{place.address}</p>
+      </div>
+      {place.kind === 'custom' && (
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          aria-label="Save name"
+          disabled={!renamed || renamePlace.isPending}
+          onClick={() => renamePlace.mutate({ id: place.id, label: label.trim() })}
+        >
+          <Check className="h-4 w-4" />
+        </Button>
+      )}
+      <Button
+        type="button"
+        size="icon"
+        variant="ghost"
+        aria-label="Remove place"
+        disabled={deletePlace.isPending}
+        onClick={() => deletePlace.mutate(place.id)}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+const SavedPlacesDialog = () => {
+  const { savedPlaces } = useSavedPlaces();
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button type="button" size="sm" variant="ghost" className="h-7 px-2 text-xs">
+          Manage
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Saved places</DialogTitle>
+          <DialogDescription>Rename your favourites or remove places you no longer use.</DialogDescription>
+        </DialogHeader>
+        {savedPlaces.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">You have no saved places.</p>
+        ) : (
+          <div className="space-y-2">
+            {savedPlaces.map((place) => (
+              <SavedPlaceRow key={`${place.id}-${place.label}`} place={place} />
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SavedPlacesDialog;
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { invokeFunction } from '@/lib/functions';
+import { errorMessage } from '@/lib/errors';
+import { toast } from 'sonner';
+
+interface SuspendUserDialogProps {
+  userId: string;
+  name: string;
+  // Suspended users get the reinstate flow instead
+  suspended: boolean;
+  onChanged: () => void;
+}
+
+const SuspendUserDialog = ({ userId, name, suspended, onChanged }: SuspendUserDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState('');
+
+  const updateSuspension = useMutation({
+    mutationFn: async () => {
+      return invokeFunction('admin-actions', {
+        action: suspended ? 'reinstate_user' : 'suspend_user',
+        user_id: userId,
+        note: note || null,
+      });
+    },
+    onSuccess: () => {
+      toast.success(suspended ? `${name} has been reinstated` : `${name} has been suspended`);
+      setOpen(false);
+      setNote('');
+      onChanged();
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to update the account'));
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className={suspended ? undefined : 'text-destructive hover:text-destructive'}>
+          {suspended ? 'Reinstate' : 'Suspend'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{suspended ? `Reinstate ${name}?` : `Suspend ${name}?`}</DialogTitle>
+          <DialogDescription>
+            {suspended
+              ? 'They will be able to sign in, book and accept rides again.'
+              : 'They will be signed out of new sessions and cannot book or accept rides until reinstated.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${userId}-suspension-note`}>{suspended ? 'Note (Optional)' : 'Reason'}</Label>
+          <Textarea
+            id={`${userId}-suspension-note`}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={suspended ? 'default' : 'destructive'}
+            onClick={() => updateSuspension.mutate()}
+            disabled={(!suspended && !note.trim()) || updateSuspension.isPending}
+          >
+            {updateSuspension.isPending ? 'Saving...' : suspended ? 'Reinstate' : 'Suspend'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SuspendUserDialog;
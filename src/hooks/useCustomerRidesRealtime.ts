@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+const statusToasts: Partial<Record<Tables<'rides'>['status'], (ride: Tables<'rides'>) => void>> = {
+  accepted: (ride) => toast.success('A driver accepted your ride', { description: `Pickup at ${ride.from_location}` }),
+  in_progress: (ride) => toast.info('Your trip has started', { description: `Heading to ${ride.to_location}` }),
+  completed: (ride) =>
+    toast.success('Trip completed', { description: ride.final_fare ? `Fare: ₹${ride.final_fare}` : undefined }),
+  expired: () => toast.error('No driver accepted your ride in time', { description: 'You can re-book it from your ride history' }),
+};
+
+// Patches the customer's "Your Rides" cache in place as their rides change
+export const useCustomerRidesRealtime = (customerId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!customerId) return;
+
+    const channel = supabase
+      .channel(`customer-rides-${customerId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'rides', filter: `customer_id=eq.${customerId}` },
+        (payload) => {
+          const ride = payload.new as Tables<'rides'>;
+          // With row level security the payload's old row only carries the id,
+          // so diff against the row we last cached instead
+          const previous = queryClient
+            .getQueryData<Tables<'rides'>[]>(['customer-rides'])
+            ?.find((r) => r.id === ride.id);
+
+          queryClient.setQueryData<Tables<'rides'>[]>(['customer-rides'], (rides) =>
+            rides?.map((r) => (r.id === ride.id ? { ...r, ...ride } : r))
+          );
+
+          if (!previous) return;
+
+          // The embedded driver profile is not part of the change payload
+          if (ride.driver_id !== previous.driver_id) {
+            queryClient.invalidateQueries({ queryKey: ['customer-rides'] });
+          }
+
+          if (previous.status !== ride.status) {
+            statusToasts[ride.status]?.(ride);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [customerId, queryClient]);
+};
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Latest reported position of the driver serving a ride, kept live while tracking is on
+export const useDriverLocation = (rideId: string, tracking: boolean) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['ride-location', rideId];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ride_locations')
+        .select('*')
+        .eq('ride_id', rideId)
+        .order('recorded_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: tracking,
+  });
+
+  useEffect(() => {
+    if (!tracking) return;
+
+    const channel = supabase
+      .channel(`ride-location-${rideId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'ride_locations', filter: `ride_id=eq.${rideId}` },
+        (payload) => {
+          queryClient.setQueryData(['ride-location', rideId], payload.new as Tables<'ride_locations'>);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [rideId, tracking, queryClient]);
+
+  return query;
+};
@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { haversineKm } from '@/lib/geo';
+
+// Seconds between reports; a driver on a trip is followed closely, an idle one only coarsely
+const TRIP_INTERVAL_S = 10;
+const IDLE_INTERVAL_S = 60;
+// Below this charge (and not plugged in) reports slow down and high accuracy is dropped
+const LOW_BATTERY_LEVEL = 0.2;
+// Movement smaller than this is GPS jitter; only a heartbeat is sent while parked
+const MIN_MOVE_KM = 0.025;
+const HEARTBEAT_FACTOR = 3;
+
+// The Battery Status API is not in the DOM typings and is missing in some browsers
+interface BatteryStatus extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+type BatteryNavigator = Navigator & { getBattery?: () => Promise<BatteryStatus> };
+
+interface LastReport {
+  latitude: number;
+  longitude: number;
+  at: number;
+}
+
+// Streams the driver's position to report_driver_location() while they are
+// available or serving a ride.
+export const useDriverLocationReporter = (enabled: boolean, onTrip: boolean) => {
+  const [lowBattery, setLowBattery] = useState(false);
+  const [lastReportedAt, setLastReportedAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const lastReport = useRef<LastReport | null>(null);
+
+  // Track battery state so the watcher below can adapt
+  useEffect(() => {
+    if (!enabled) return;
+    const getBattery = (navigator as BatteryNavigator).getBattery;
+    if (!getBattery) return;
+
+    let battery: BatteryStatus | null = null;
+    const update = () => {
+      if (battery) setLowBattery(!battery.charging && battery.level < LOW_BATTERY_LEVEL);
+    };
+
+    getBattery.call(navigator).then((status) => {
+      battery = status;
+      update();
+      battery.addEventListener('levelchange', update);
+      battery.addEventListener('chargingchange', update);
+    }).catch(() => {
+      // Not allowed in this context; report at the normal rate
+    });
+
+    return () => {
+      battery?.removeEventListener('levelchange', update);
+      battery?.removeEventListener('chargingchange', update);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (!('geolocation' in navigator)) {
+      setError('Location is not supported on this device');
+      return;
+    }
+
+    // Report the first fix straight away, e.g. as soon as a ride is accepted
+    lastReport.current = null;
+    const intervalMs = (onTrip ? TRIP_INTERVAL_S : IDLE_INTERVAL_S) * (lowBattery ? 2 : 1) * 1000;
+
+    // Latest fix from the watcher, even if it was not worth reporting
+    let latestCoords: GeolocationCoordinates | null = null;
+
+    const send = async ({ latitude, longitude, accuracy, heading, speed }: GeolocationCoordinates) => {
+      const now = Date.now();
+      lastReport.current = { latitude, longitude, at: now };
+      const { error } = await supabase.rpc('report_driver_location', {
+        lat: latitude,
+        lng: longitude,
+        accuracy: accuracy ?? undefined,
+        heading: heading ?? undefined,
+        speed: speed != null ? speed * 3.6 : undefined,
+      });
+
+      if (error) {
+        console.error('Error reporting location:', error);
+        setError('Could not share your location');
+        return;
+      }
+      setError(null);
+      setLastReportedAt(new Date(now));
+    };
+
+    const report = (position: GeolocationPosition) => {
+      const { latitude, longitude } = position.coords;
+      const previous = lastReport.current;
+      latestCoords = position.coords;
+
+      if (previous) {
+        const elapsed = Date.now() - previous.at;
+        if (elapsed < intervalMs) return;
+        const moved = haversineKm(previous, { latitude, longitude });
+        if (moved < MIN_MOVE_KM && elapsed < intervalMs * HEARTBEAT_FACTOR) return;
+      }
+
+      send(position.coords);
+    };
+
+    // The watcher can go quiet while the device is still, so a parked driver
+    // re-sends their last fix to stay fresh for dispatch
+    const heartbeat = setInterval(() => {
+      const previous = lastReport.current;
+      if (latestCoords && previous && Date.now() - previous.at >= intervalMs * HEARTBEAT_FACTOR) {
+        send(latestCoords);
+      }
+    }, intervalMs);
+
+    const watchId = navigator.geolocation.watchPosition(
+      report,
+      (positionError) => {
+        setError(positionError.code === positionError.PERMISSION_DENIED
+          ? 'Location permission denied'
+          : 'Unable to determine your location');
+      },
+      {
+        enableHighAccuracy: onTrip && !lowBattery,
+        maximumAge: intervalMs / 2,
+        timeout: 30_000,
+      }
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      clearInterval(heartbeat);
+    };
+  }, [enabled, onTrip, lowBattery]);
+
+  return { lastReportedAt, error, lowBattery };
+};
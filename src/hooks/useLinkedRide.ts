@@ -0,0 +1,16 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+// The ride a notification linked to (`/?ride=<id>`), scrolled into view once
+// the dashboard has rendered its card
+export const useLinkedRide = (ready: boolean) => {
+  const [searchParams] = useSearchParams();
+  const rideId = searchParams.get('ride');
+
+  useEffect(() => {
+    if (!rideId || !ready) return;
+    document.getElementById(`ride-${rideId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [rideId, ready]);
+
+  return rideId;
+};
@@ -0,0 +1,94 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Tables } from '@/integrations/supabase/types';
+import { errorMessage } from '@/lib/errors';
+import { toast } from 'sonner';
+
+export type RideNotification = Tables<'ride_notifications'> & {
+  rides: Pick<Tables<'rides'>, 'id' | 'customer_id' | 'from_location' | 'to_location' | 'status'> | null;
+};
+
+const NOTIFICATION_LIMIT = 50;
+
+export const useNotifications = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: notifications = [] } = useQuery({
+    queryKey: ['notifications'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ride_notifications')
+        .select(`
+          *,
+          rides(id, customer_id, from_location, to_location, status)
+        `)
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      return data as RideNotification[];
+    },
+    enabled: !!user,
+  });
+
+  // Deliver new notifications as they are inserted
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'ride_notifications', filter: `user_id=eq.${user.id}` },
+        () => {
+          // Dashboards toast the ride events themselves; here we only refresh the bell
+          queryClient.invalidateQueries({ queryKey: ['notifications'] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  const unreadCount = notifications.filter((n) => !n.is_read).length;
+
+  const markAsRead = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('ride_notifications')
+        .update({ is_read: true })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+
+  const markAllAsRead = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('ride_notifications')
+        .update({ is_read: true })
+        .eq('user_id', user?.id)
+        .eq('is_read', false);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to mark notifications as read'));
+    },
+  });
+
+  return { notifications, unreadCount, markAsRead, markAllAsRead };
+};
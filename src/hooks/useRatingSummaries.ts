@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { RatedParty } from '@/lib/ratings';
+
+export interface RatingSummary {
+  average_rating: number;
+  rating_count: number;
+}
+
+// Average ratings for a set of users in one role, keyed by user id
+export const useRatingSummaries = (userIds: (string | null | undefined)[], role: RatedParty) => {
+  const ids = [...new Set(userIds.filter((id): id is string => !!id))].sort();
+
+  const { data = {} } = useQuery({
+    queryKey: ['rating-summaries', role, ids],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_rating_summary')
+        .select('*')
+        .eq('role', role)
+        .in('user_id', ids);
+
+      if (error) throw error;
+      return Object.fromEntries(
+        (data ?? []).map((row) => [
+          row.user_id,
+          { average_rating: Number(row.average_rating), rating_count: row.rating_count ?? 0 },
+        ])
+      ) as Record<string, RatingSummary>;
+    },
+    enabled: ids.length > 0,
+  });
+
+  return data;
+};
@@ -0,0 +1,69 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Tables } from '@/integrations/supabase/types';
+import { errorMessage } from '@/lib/errors';
+import { invokeFunction } from '@/lib/functions';
+import { priceRangeAround } from '@/lib/rides';
+import { toast } from 'sonner';
+
+export type RebookableRide = Pick<
+  Tables<'rides'>,
+  | 'from_location'
+  | 'to_location'
+  | 'from_latitude'
+  | 'from_longitude'
+  | 'to_latitude'
+  | 'to_longitude'
+  | 'vehicle_type'
+  | 'notes'
+  | 'min_price'
+  | 'max_price'
+  | 'driver_price'
+>;
+
+// One-tap re-book of an expired request: same trip and prices, picking up shortly
+export const useRebookRide = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ride: RebookableRide) => {
+      const pickup = new Date();
+      pickup.setMinutes(pickup.getMinutes() + 10);
+      const trip = {
+        from_location: ride.from_location,
+        to_location: ride.to_location,
+        from_latitude: ride.from_latitude,
+        from_longitude: ride.from_longitude,
+        to_latitude: ride.to_latitude,
+        to_longitude: ride.to_longitude,
+        pickup_time: pickup.toISOString(),
+        vehicle_type: ride.vehicle_type,
+      };
+
+      // Older rides have no price range; quote the trip again and price around it
+      let prices = { min_price: ride.min_price, max_price: ride.max_price, driver_price: ride.driver_price };
+      if (prices.min_price == null || prices.max_price == null || prices.driver_price == null) {
+        const { quotes } = await invokeFunction<{ quotes: { vehicle_type: string; estimated_fare: number }[] }>(
+          'quote-ride',
+          trip
+        );
+        const quote = quotes.find((q) => q.vehicle_type === ride.vehicle_type);
+        if (!quote) throw new Error('Could not price this trip. Please book it again.');
+        prices = priceRangeAround(quote.estimated_fare);
+      }
+
+      return invokeFunction('create-ride', {
+        ...trip,
+        notes: ride.notes || null,
+        ...prices,
+      });
+    },
+    onSuccess: () => {
+      toast.success('Ride re-booked. We are finding you a driver.');
+      queryClient.invalidateQueries({ queryKey: ['customer-rides'] });
+      queryClient.invalidateQueries({ queryKey: ['ride-history'] });
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to re-book ride'));
+    },
+  });
+};
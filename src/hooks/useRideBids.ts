@@ -0,0 +1,41 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+// Open counter-offers on one of the customer's pending rides, refreshed as drivers bid
+export const useRideBids = (rideId: string, enabled: boolean) => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['ride-bids', rideId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_ride_bids', { p_ride_id: rideId });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel(`ride-bids-${rideId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'ride_bids', filter: `ride_id=eq.${rideId}` },
+        () => {
+          // Refetch through get_ride_bids, which adds the driver's first name
+          queryClient.invalidateQueries({ queryKey: ['ride-bids', rideId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [rideId, enabled, queryClient]);
+
+  return query;
+};
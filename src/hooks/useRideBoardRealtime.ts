@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+// How long a newly arrived request stays highlighted on the board
+const HIGHLIGHT_MS = 10_000;
+
+// Short two-tone chime; silently skipped where audio is unavailable or blocked
+const playNewRideCue = () => {
+  try {
+    const AudioContextClass =
+      window.AudioContext ||
+      (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return;
+    const context = new AudioContextClass();
+    [880, 1320].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = context.currentTime + index * 0.18;
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.16);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.16);
+    });
+    setTimeout(() => context.close(), 600);
+  } catch (error) {
+    console.error('Error playing new ride cue:', error);
+  }
+};
+
+// Minimal change event broadcast by the broadcast_ride_board_change trigger.
+// It deliberately carries no addresses or customer details.
+interface RideBoardChange {
+  id: string;
+  vehicle_type: Tables<'rides'>['vehicle_type'];
+  status: Tables<'rides'>['status'];
+  previous_status: Tables<'rides'>['status'] | null;
+  // False while the ride is still being offered to nearby drivers only
+  on_board: boolean;
+}
+
+// A targeted offer, broadcast on the driver's own topic by broadcast_ride_offer
+interface RideOfferEvent {
+  id: string;
+  ride_id: string;
+  distance_km: number;
+  expires_at: string;
+}
+
+// Keeps the driver's "Available Rides" board in sync with the rides table and
+// the offers dispatched to this driver.
+// Returns the ids of requests that arrived recently so the board can highlight them.
+export const useRideBoardRealtime = (
+  vehicleType: string | undefined,
+  driverId: string | undefined,
+  isAvailable: boolean
+) => {
+  const queryClient = useQueryClient();
+  const [recentRideIds, setRecentRideIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!vehicleType || !driverId || !isAvailable) return;
+
+    const boardKey = ['available-rides', vehicleType];
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    const highlight = (rideId: string) => {
+      playNewRideCue();
+      setRecentRideIds((ids) => [...ids, rideId]);
+      timers.push(setTimeout(() => {
+        setRecentRideIds((ids) => ids.filter((id) => id !== rideId));
+      }, HIGHLIGHT_MS));
+    };
+
+    const boardChannel = supabase
+      .channel(`ride-board:${vehicleType}`)
+      .on('broadcast', { event: 'ride_board_change' }, ({ payload }) => {
+        const change = payload as RideBoardChange;
+
+        if (change.status !== 'pending') {
+          // Accepted by someone else or cancelled: drop it from the board immediately
+          queryClient.setQueryData<{ id: string }[]>(boardKey, (rides) =>
+            rides?.filter((r) => r.id !== change.id)
+          );
+          // The customer may have picked our counter-offer
+          if (change.status === 'accepted') {
+            queryClient.invalidateQueries({ queryKey: ['driver-rides'] });
+          }
+          return;
+        }
+
+        // Rides still in targeted dispatch reach us as offers instead
+        if (!change.on_board) return;
+
+        // A new open request, or a driver backed out and the ride is open again.
+        // Refetch through get_available_rides so the board stays masked.
+        queryClient.invalidateQueries({ queryKey: boardKey });
+        toast.info(`New ${change.vehicle_type} ride request`);
+        highlight(change.id);
+      })
+      .subscribe();
+
+    // Private, so only this driver can join their offer topic
+    const offerChannel = supabase
+      .channel(`ride-offers:${driverId}`, { config: { private: true } })
+      .on('broadcast', { event: 'ride_offer' }, ({ payload }) => {
+        const offer = payload as RideOfferEvent;
+
+        queryClient.invalidateQueries({ queryKey: boardKey });
+        toast.info('New ride offer near you', {
+          description: `Pickup ${offer.distance_km} km away`,
+        });
+        highlight(offer.ride_id);
+
+        // The offer drops off the board once it lapses
+        const remaining = new Date(offer.expires_at).getTime() - Date.now();
+        timers.push(setTimeout(() => {
+          queryClient.invalidateQueries({ queryKey: boardKey });
+        }, Math.max(0, remaining) + 1000));
+      })
+      .subscribe();
+
+    return () => {
+      timers.forEach(clearTimeout);
+      supabase.removeChannel(boardChannel);
+      supabase.removeChannel(offerChannel);
+    };
+  }, [vehicleType, driverId, isAvailable, queryClient]);
+
+  return { recentRideIds };
+};
@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { errorMessage } from '@/lib/errors';
+
+export type SavedPlace = Tables<'saved_places'>;
+export type SavedPlaceKind = SavedPlace['kind'];
+
+interface SavePlaceInput {
+  kind: SavedPlaceKind;
+  label: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+}
+
+const kindOrder: Record<SavedPlaceKind, number> = { home: 0, work: 1, custom: 2 };
+
+export const useSavedPlaces = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: savedPlaces = [] } = useQuery({
+    queryKey: ['saved-places'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('saved_places')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data.sort((a, b) => kindOrder[a.kind] - kindOrder[b.kind]);
+    },
+    enabled: !!user,
+  });
+
+  // Home and Work are replaced rather than duplicated
+  const savePlace = useMutation({
+    mutationFn: async (place: SavePlaceInput) => {
+      const existing = place.kind !== 'custom' && savedPlaces.find((p) => p.kind === place.kind);
+
+      const { error } = existing
+        ? await supabase.from('saved_places').update(place).eq('id', existing.id)
+        : await supabase.from('saved_places').insert({ ...place, user_id: user!.id });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, place) => {
+      toast.success(`Saved "${place.label}"`);
+      queryClient.invalidateQueries({ queryKey: ['saved-places'] });
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to save place'));
+    },
+  });
+
+  const renamePlace = useMutation({
+    mutationFn: async ({ id, label }: { id: string; label: string }) => {
+      const { error } = await supabase.from('saved_places').update({ label }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { label }) => {
+      toast.success(`Renamed to "${label}"`);
+      queryClient.invalidateQueries({ queryKey: ['saved-places'] });
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to rename place'));
+    },
+  });
+
+  const deletePlace = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('saved_places').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Place removed');
+      queryClient.invalidateQueries({ queryKey: ['saved-places'] });
+    },
+    onError: (error: unknown) => {
+      toast.error(errorMessage(error, 'Failed to remove place'));
+    },
+  });
+
+  return { savedPlaces, savePlace, renamePlace, deletePlace };
+};
@@ -14,6 +14,103 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          admin_id: string
+          created_at: string
+          details: Json
+          id: string
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          action: string
+          admin_id: string
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          action?: string
+          admin_id?: string
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_audit_log_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      app_settings: {
+        Row: {
+          description: string | null
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          description?: string | null
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          description?: string | null
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      driver_offer_stats: {
+        Row: {
+          acceptance_rate: number | null
+          driver_id: string
+          offers_accepted: number
+          offers_declined: number
+          offers_expired: number
+          offers_received: number
+          updated_at: string
+        }
+        Insert: {
+          acceptance_rate?: never
+          driver_id: string
+          offers_accepted?: number
+          offers_declined?: number
+          offers_expired?: number
+          offers_received?: number
+          updated_at?: string
+        }
+        Update: {
+          acceptance_rate?: never
+          driver_id?: string
+          offers_accepted?: number
+          offers_declined?: number
+          offers_expired?: number
+          offers_received?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "driver_offer_stats_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       driver_profiles: {
         Row: {
           created_at: string
@@ -22,6 +119,7 @@ export type Database = {
           id: string
           is_available: boolean | null
           license_number: string | null
+          location_updated_at: string | null
           updated_at: string
           user_id: string
           vehicle_number: string
@@ -34,6 +132,7 @@ export type Database = {
           id?: string
           is_available?: boolean | null
           license_number?: string | null
+          location_updated_at?: string | null
           updated_at?: string
           user_id: string
           vehicle_number: string
@@ -46,6 +145,7 @@ export type Database = {
           id?: string
           is_available?: boolean | null
           license_number?: string | null
+          location_updated_at?: string | null
           updated_at?: string
           user_id?: string
           vehicle_number?: string
@@ -61,6 +161,57 @@ export type Database = {
           },
         ]
       }
+      fare_tariffs: {
+        Row: {
+          average_speed_kmph: number
+          base_fare: number
+          cancellation_fee: number
+          created_at: string
+          free_waiting_minutes: number
+          id: string
+          included_km: number
+          minimum_fare: number
+          per_km_rate: number
+          time_multipliers: Json
+          updated_at: string
+          utc_offset_minutes: number
+          vehicle_type: Database["public"]["Enums"]["vehicle_type"]
+          waiting_per_minute: number
+        }
+        Insert: {
+          average_speed_kmph?: number
+          base_fare: number
+          cancellation_fee?: number
+          created_at?: string
+          free_waiting_minutes?: number
+          id?: string
+          included_km?: number
+          minimum_fare?: number
+          per_km_rate: number
+          time_multipliers?: Json
+          updated_at?: string
+          utc_offset_minutes?: number
+          vehicle_type: Database["public"]["Enums"]["vehicle_type"]
+          waiting_per_minute?: number
+        }
+        Update: {
+          average_speed_kmph?: number
+          base_fare?: number
+          cancellation_fee?: number
+          created_at?: string
+          free_waiting_minutes?: number
+          id?: string
+          included_km?: number
+          minimum_fare?: number
+          per_km_rate?: number
+          time_multipliers?: Json
+          updated_at?: string
+          utc_offset_minutes?: number
+          vehicle_type?: Database["public"]["Enums"]["vehicle_type"]
+          waiting_per_minute?: number
+        }
+        Relationships: []
+      }
       locations: {
         Row: {
           address: string
@@ -94,6 +245,8 @@ export type Database = {
           full_name: string | null
           id: string
           phone: string | null
+          suspended_at: string | null
+          suspension_reason: string | null
           updated_at: string
           user_id: string
           user_type: Database["public"]["Enums"]["user_role"]
@@ -103,6 +256,8 @@ export type Database = {
           full_name?: string | null
           id?: string
           phone?: string | null
+          suspended_at?: string | null
+          suspension_reason?: string | null
           updated_at?: string
           user_id: string
           user_type?: Database["public"]["Enums"]["user_role"]
@@ -112,12 +267,168 @@ export type Database = {
           full_name?: string | null
           id?: string
           phone?: string | null
+          suspended_at?: string | null
+          suspension_reason?: string | null
           updated_at?: string
           user_id?: string
           user_type?: Database["public"]["Enums"]["user_role"]
         }
         Relationships: []
       }
+      ride_bids: {
+        Row: {
+          amount: number
+          created_at: string
+          customer_id: string
+          driver_id: string
+          id: string
+          ride_id: string
+          status: Database["public"]["Enums"]["ride_bid_status"]
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          customer_id: string
+          driver_id: string
+          id?: string
+          ride_id: string
+          status?: Database["public"]["Enums"]["ride_bid_status"]
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          customer_id?: string
+          driver_id?: string
+          id?: string
+          ride_id?: string
+          status?: Database["public"]["Enums"]["ride_bid_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_bids_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "ride_bids_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "ride_bids_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_cancellations: {
+        Row: {
+          cancelled_by: string
+          cancelled_by_role: string
+          created_at: string
+          fee: number
+          id: string
+          note: string | null
+          reason_code: string
+          ride_id: string
+        }
+        Insert: {
+          cancelled_by: string
+          cancelled_by_role: string
+          created_at?: string
+          fee?: number
+          id?: string
+          note?: string | null
+          reason_code: string
+          ride_id: string
+        }
+        Update: {
+          cancelled_by?: string
+          cancelled_by_role?: string
+          created_at?: string
+          fee?: number
+          id?: string
+          note?: string | null
+          reason_code?: string
+          ride_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_cancellations_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "ride_cancellations_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_locations: {
+        Row: {
+          accuracy_m: number | null
+          driver_id: string
+          heading_deg: number | null
+          id: string
+          latitude: number
+          longitude: number
+          recorded_at: string
+          ride_id: string
+          speed_kmph: number | null
+        }
+        Insert: {
+          accuracy_m?: number | null
+          driver_id: string
+          heading_deg?: number | null
+          id?: string
+          latitude: number
+          longitude: number
+          recorded_at?: string
+          ride_id: string
+          speed_kmph?: number | null
+        }
+        Update: {
+          accuracy_m?: number | null
+          driver_id?: string
+          heading_deg?: number | null
+          id?: string
+          latitude?: number
+          longitude?: number
+          recorded_at?: string
+          ride_id?: string
+          speed_kmph?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_locations_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "ride_locations_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ride_notifications: {
         Row: {
           created_at: string
@@ -160,20 +471,153 @@ export type Database = {
           },
         ]
       }
+      ride_offers: {
+        Row: {
+          decline_note: string | null
+          decline_reason: string | null
+          distance_km: number | null
+          driver_id: string
+          expires_at: string | null
+          id: string
+          offered_at: string
+          responded_at: string | null
+          ride_id: string
+          status: Database["public"]["Enums"]["ride_offer_status"]
+          wave: number
+        }
+        Insert: {
+          decline_note?: string | null
+          decline_reason?: string | null
+          distance_km?: number | null
+          driver_id: string
+          expires_at?: string | null
+          id?: string
+          offered_at?: string
+          responded_at?: string | null
+          ride_id: string
+          status?: Database["public"]["Enums"]["ride_offer_status"]
+          wave: number
+        }
+        Update: {
+          decline_note?: string | null
+          decline_reason?: string | null
+          distance_km?: number | null
+          driver_id?: string
+          expires_at?: string | null
+          id?: string
+          offered_at?: string
+          responded_at?: string | null
+          ride_id?: string
+          status?: Database["public"]["Enums"]["ride_offer_status"]
+          wave?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_offers_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "ride_offers_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_ratings: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          ratee_id: string
+          ratee_role: string
+          rater_id: string
+          rating: number
+          ride_id: string
+          tags: string[]
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          ratee_id: string
+          ratee_role: string
+          rater_id: string
+          rating: number
+          ride_id: string
+          tags?: string[]
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          ratee_id?: string
+          ratee_role?: string
+          rater_id?: string
+          rating?: number
+          ride_id?: string
+          tags?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_ratings_ratee_id_fkey"
+            columns: ["ratee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "ride_ratings_rater_id_fkey"
+            columns: ["rater_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "ride_ratings_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rides: {
         Row: {
+          accepted_at: string | null
+          cancellation_fee: number | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          completed_at: string | null
           created_at: string
           customer_id: string
+          dispatch_wave: number
+          dispatch_wave_at: string | null
           distance_km: number | null
           driver_id: string | null
+          driver_price: number | null
           estimated_fare: number | null
+          expired_at: string | null
+          fare_breakdown: Json | null
           final_fare: number | null
           from_latitude: number | null
           from_location: string
           from_longitude: number | null
           id: string
+          is_scheduled: boolean
+          max_price: number | null
+          min_price: number | null
           notes: string | null
+          opened_to_board_at: string | null
           pickup_time: string
+          released_at: string | null
+          reminder_sent_at: string | null
+          started_at: string | null
           status: Database["public"]["Enums"]["ride_status"]
           to_latitude: number | null
           to_location: string
@@ -182,18 +626,36 @@ export type Database = {
           vehicle_type: Database["public"]["Enums"]["vehicle_type"]
         }
         Insert: {
+          accepted_at?: string | null
+          cancellation_fee?: number | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          completed_at?: string | null
           created_at?: string
           customer_id: string
+          dispatch_wave?: number
+          dispatch_wave_at?: string | null
           distance_km?: number | null
           driver_id?: string | null
+          driver_price?: number | null
           estimated_fare?: number | null
+          expired_at?: string | null
+          fare_breakdown?: Json | null
           final_fare?: number | null
           from_latitude?: number | null
           from_location: string
           from_longitude?: number | null
           id?: string
+          is_scheduled?: boolean
+          max_price?: number | null
+          min_price?: number | null
           notes?: string | null
+          opened_to_board_at?: string | null
           pickup_time: string
+          released_at?: string | null
+          reminder_sent_at?: string | null
+          started_at?: string | null
           status?: Database["public"]["Enums"]["ride_status"]
           to_latitude?: number | null
           to_location: string
@@ -202,18 +664,36 @@ export type Database = {
           vehicle_type: Database["public"]["Enums"]["vehicle_type"]
         }
         Update: {
+          accepted_at?: string | null
+          cancellation_fee?: number | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          completed_at?: string | null
           created_at?: string
           customer_id?: string
+          dispatch_wave?: number
+          dispatch_wave_at?: string | null
           distance_km?: number | null
           driver_id?: string | null
+          driver_price?: number | null
           estimated_fare?: number | null
+          expired_at?: string | null
+          fare_breakdown?: Json | null
           final_fare?: number | null
           from_latitude?: number | null
           from_location?: string
           from_longitude?: number | null
           id?: string
+          is_scheduled?: boolean
+          max_price?: number | null
+          min_price?: number | null
           notes?: string | null
+          opened_to_board_at?: string | null
           pickup_time?: string
+          released_at?: string | null
+          reminder_sent_at?: string | null
+          started_at?: string | null
           status?: Database["public"]["Enums"]["ride_status"]
           to_latitude?: number | null
           to_location?: string
@@ -222,6 +702,13 @@ export type Database = {
           vehicle_type?: Database["public"]["Enums"]["vehicle_type"]
         }
         Relationships: [
+          {
+            foreignKeyName: "rides_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
           {
             foreignKeyName: "rides_customer_id_fkey"
             columns: ["customer_id"]
@@ -238,21 +725,182 @@ export type Database = {
           },
         ]
       }
+      saved_places: {
+        Row: {
+          address: string
+          created_at: string
+          id: string
+          kind: Database["public"]["Enums"]["saved_place_kind"]
+          label: string
+          latitude: number
+          longitude: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["saved_place_kind"]
+          label: string
+          latitude: number
+          longitude: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["saved_place_kind"]
+          label?: string
+          latitude?: number
+          longitude?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_places_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      user_rating_summary: {
+        Row: {
+          average_rating: number | null
+          rating_count: number | null
+          role: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      area_name: {
+        Args: {
+          lat: number
+          lng: number
+          address: string
+        }
+        Returns: string
+      }
+      completed_contact_window: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      get_available_rides: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          customer_first_name: string
+          distance_km: number
+          driver_price: number
+          dropoff_area: string
+          estimated_fare: number
+          from_latitude: number
+          from_longitude: number
+          id: string
+          max_price: number
+          min_price: number
+          my_bid_amount: number
+          notes: string
+          offer_distance_km: number
+          offer_expires_at: string
+          pickup_area: string
+          pickup_time: string
+          to_latitude: number
+          to_longitude: number
+          vehicle_type: Database["public"]["Enums"]["vehicle_type"]
+        }[]
+      }
+      get_driver_earnings: {
+        Args: {
+          p_period: string
+          p_from: string
+          p_tz?: string
+        }
+        Returns: {
+          distance_km: number
+          earnings: number
+          period_start: string
+          trips: number
+        }[]
+      }
+      get_ride_bids: {
+        Args: {
+          p_ride_id: string
+        }
+        Returns: {
+          acceptance_rate: number
+          amount: number
+          created_at: string
+          driver_first_name: string
+          id: string
+          ride_id: string
+          updated_at: string
+        }[]
+      }
+      get_ride_receipt: {
+        Args: {
+          p_ride_id: string
+        }
+        Returns: {
+          completed_at: string
+          customer_name: string
+          distance_km: number
+          driver_name: string
+          estimated_fare: number
+          fare_breakdown: Json
+          final_fare: number
+          from_location: string
+          id: string
+          pickup_time: string
+          started_at: string
+          to_location: string
+          vehicle_number: string
+          vehicle_type: Database["public"]["Enums"]["vehicle_type"]
+        }[]
+      }
+      grant_admin: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      report_driver_location: {
+        Args: {
+          accuracy?: number
+          heading?: number
+          lat: number
+          lng: number
+          speed?: number
+        }
+        Returns: undefined
+      }
     }
     Enums: {
+      ride_bid_status: "open" | "accepted" | "rejected"
+      ride_offer_status: "offered" | "accepted" | "expired" | "declined"
       ride_status:
+        | "scheduled"
         | "pending"
         | "accepted"
         | "in_progress"
         | "completed"
         | "cancelled"
-      user_role: "customer" | "rider"
+        | "expired"
+      saved_place_kind: "home" | "work" | "custom"
+      user_role: "customer" | "driver" | "admin"
       vehicle_type: "auto" | "car" | "bike"
     }
     CompositeTypes: {
@@ -381,14 +1029,19 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      ride_bid_status: ["open", "accepted", "rejected"],
+      ride_offer_status: ["offered", "accepted", "expired", "declined"],
       ride_status: [
+        "scheduled",
         "pending",
         "accepted",
         "in_progress",
         "completed",
         "cancelled",
+        "expired",
       ],
-      user_role: ["customer", "rider"],
+      saved_place_kind: ["home", "work", "custom"],
+      user_role: ["customer", "driver", "admin"],
       vehicle_type: ["auto", "car", "bike"],
     },
   },
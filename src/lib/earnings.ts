@@ -0,0 +1,59 @@
+export type EarningsPeriod = 'day' | 'week' | 'month';
+
+export interface EarningsBucket {
+  period_start: string;
+  trips: number;
+  earnings: number;
+  distance_km: number;
+}
+
+// How many buckets each view covers, ending with the current one
+export const EARNINGS_BUCKET_COUNT: Record<EarningsPeriod, number> = {
+  day: 14,
+  week: 12,
+  month: 12,
+};
+
+const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Start of the bucket containing `date`, in local time. Weeks start on
+// Monday to match Postgres' date_trunc('week').
+const bucketStart = (period: EarningsPeriod, date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (period === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  if (period === 'month') start.setDate(1);
+  return start;
+};
+
+const shiftBucket = (period: EarningsPeriod, date: Date, count: number) => {
+  const shifted = new Date(date);
+  if (period === 'day') shifted.setDate(shifted.getDate() + count);
+  if (period === 'week') shifted.setDate(shifted.getDate() + count * 7);
+  if (period === 'month') shifted.setMonth(shifted.getMonth() + count);
+  return shifted;
+};
+
+// Start of the earliest bucket shown for the period
+export const earningsFrom = (period: EarningsPeriod, now: Date) =>
+  shiftBucket(period, bucketStart(period, now), -(EARNINGS_BUCKET_COUNT[period] - 1));
+
+// Every bucket in the view, with empty ones filled in so the chart has no gaps
+export const fillEarningsBuckets = (period: EarningsPeriod, now: Date, buckets: EarningsBucket[]) => {
+  const byStart = new Map(buckets.map((bucket) => [bucket.period_start, bucket]));
+  const from = earningsFrom(period, now);
+  return Array.from({ length: EARNINGS_BUCKET_COUNT[period] }, (_, i) => {
+    const key = toDateKey(shiftBucket(period, from, i));
+    return byStart.get(key) ?? { period_start: key, trips: 0, earnings: 0, distance_km: 0 };
+  });
+};
+
+export const formatBucketLabel = (period: EarningsPeriod, periodStart: string) => {
+  const date = new Date(`${periodStart}T00:00:00`);
+  return period === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+    : date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+};
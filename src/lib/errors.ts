@@ -0,0 +1,3 @@
+// Message to show for a caught error, falling back when it has none
+export const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
@@ -0,0 +1,2 @@
+// The fare engine lives with the edge functions so both sides price rides identically.
+export * from '../../supabase/functions/_shared/fare.ts';
@@ -0,0 +1,50 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Error raised by an edge function, carrying its HTTP status and `error` message
+export class EdgeFunctionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'EdgeFunctionError';
+    this.status = status;
+  }
+}
+
+// Invokes an edge function and surfaces the function's own error message on failure
+export const invokeFunction = async <T = unknown>(name: string, body?: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      throw new EdgeFunctionError(payload?.error || error.message, error.context.status);
+    }
+    throw error;
+  }
+
+  return data as T;
+};
+
+// Calls an edge function with the user's session and returns the raw response,
+// for functions that stream a file rather than JSON
+export const fetchFunction = async (name: string, body: Record<string, unknown>) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session?.access_token}`,
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new EdgeFunctionError(payload?.error || response.statusText, response.status);
+  }
+
+  return response;
+};
@@ -0,0 +1,2 @@
+// Distance helpers shared with the edge functions.
+export * from '../../supabase/functions/_shared/geo.ts';
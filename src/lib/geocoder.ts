@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  createChainedGeocoder,
+  createLocationsGeocoder,
+  createStubGeocoder,
+  locationSearchFilter,
+} from '../../supabase/functions/_shared/geocoder.ts';
+
+export * from '../../supabase/functions/_shared/geocoder.ts';
+
+// Same resolution order as the edge functions: seeded locations, then the local stub
+export const geocoder = createChainedGeocoder(
+  createLocationsGeocoder(async (query) => {
+    const { data, error } = await supabase
+      .from('locations')
+      .select('name, address, latitude, longitude')
+      .or(locationSearchFilter(query))
+      .limit(5);
+
+    if (error) throw error;
+    return data ?? [];
+  }),
+  createStubGeocoder()
+);
+
+// An address as typed in the booking form, with coordinates once resolved
+export interface PickedLocation {
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export const emptyLocation: PickedLocation = { address: '', latitude: null, longitude: null };
+
+export const isResolved = (location: PickedLocation) =>
+  location.latitude != null && location.longitude != null;
@@ -0,0 +1,61 @@
+import type { FareBreakdown, FareLineItem } from '@/lib/fare';
+
+export interface RideReceipt {
+  id: string;
+  from_location: string;
+  to_location: string;
+  pickup_time: string;
+  started_at: string | null;
+  completed_at: string | null;
+  vehicle_type: string;
+  distance_km: number | null;
+  estimated_fare: number | null;
+  final_fare: number | null;
+  fare_breakdown: FareBreakdown | null;
+  customer_name: string | null;
+  driver_name: string | null;
+  vehicle_number: string | null;
+}
+
+// Short, human-friendly receipt number derived from the ride id
+export const receiptNumber = (rideId: string) => `LR-${rideId.slice(0, 8).toUpperCase()}`;
+
+// The estimate's line items, plus a balancing line when the fare agreed at
+// completion differs from the estimate.
+export const receiptLineItems = (receipt: RideReceipt): { label: string; amount: number }[] => {
+  const items: { label: string; amount: number }[] = (receipt.fare_breakdown?.line_items ?? []).map(
+    (item: FareLineItem) => ({ label: item.label, amount: item.amount })
+  );
+  const estimated = receipt.fare_breakdown?.total ?? receipt.estimated_fare ?? 0;
+  const charged = receipt.final_fare ?? estimated;
+  const adjustment = Math.round((charged - estimated) * 100) / 100;
+  if (adjustment !== 0) {
+    items.push({ label: 'Adjustment to agreed fare', amount: adjustment });
+  }
+  return items;
+};
+
+export const receiptTotal = (receipt: RideReceipt) =>
+  receipt.final_fare ?? receipt.fare_breakdown?.total ?? receipt.estimated_fare ?? 0;
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
+// Plain-text receipt for downloading
+export const receiptText = (receipt: RideReceipt) => {
+  const lines = [
+    'LocalRide - Trip Receipt',
+    `Receipt: ${receiptNumber(receipt.id)}`,
+    `Date: ${new Date(receipt.completed_at ?? receipt.pickup_time).toLocaleString()}`,
+    '',
+    `From: ${receipt.from_location}`,
+    `To: ${receipt.to_location}`,
+    `Distance: ${receipt.distance_km ?? '-'} km`,
+    `Vehicle: ${receipt.vehicle_type.toUpperCase()}${receipt.vehicle_number ? ` (${receipt.vehicle_number})` : ''}`,
+    `Driver: ${receipt.driver_name ?? '-'}`,
+    `Customer: ${receipt.customer_name ?? '-'}`,
+    '',
+    ...receiptLineItems(receipt).map((item) => `${item.label.padEnd(32)} ${formatAmount(item.amount)}`),
+    `${'Total'.padEnd(32)} ${formatAmount(receiptTotal(receipt))}`,
+  ];
+  return lines.join('\n');
+};
@@ -0,0 +1,17 @@
+// Ride status helpers for the ride lists and cards
+
+// Rides the customer or driver still has to act on; everything else is history
+export const ACTIVE_RIDE_STATUSES = ['pending', 'accepted', 'in_progress'] as const;
+
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'scheduled': return 'bg-purple-100 text-purple-800';
+    case 'pending': return 'bg-yellow-100 text-yellow-800';
+    case 'accepted': return 'bg-blue-100 text-blue-800';
+    case 'in_progress': return 'bg-green-100 text-green-800';
+    case 'completed': return 'bg-gray-100 text-gray-800';
+    case 'cancelled': return 'bg-red-100 text-red-800';
+    case 'expired': return 'bg-orange-100 text-orange-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
@@ -0,0 +1,485 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import CancelRideDialog from '@/components/CancelRideDialog';
+import ExportRidesDialog from '@/components/ExportRidesDialog';
+import ListPagination from '@/components/ListPagination';
+import RatingBadge from '@/components/RatingBadge';
+import ReassignRideDialog from '@/components/ReassignRideDialog';
+import SuspendUserDialog from '@/components/SuspendUserDialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useRatingSummaries } from '@/hooks/useRatingSummaries';
+import { adminActionLabel, isAdmin } from '@/lib/admin';
+import { getStatusColor } from '@/lib/rideStatus';
+import { ArrowLeft, ShieldCheck } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+const RIDE_STATUSES = ['scheduled', 'pending', 'accepted', 'in_progress', 'completed', 'cancelled', 'expired'] as const;
+const USER_TYPES = ['customer', 'driver', 'admin'] as const;
+
+type RideStatus = Database['public']['Enums']['ride_status'];
+type UserType = Database['public']['Enums']['user_role'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Search text goes inside a PostgREST or() filter, where these characters are syntax
+const searchTerm = (search: string) => search.trim().replace(/[,()*%\\]/g, ' ');
+
+const RidesTab = () => {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<'all' | RideStatus>('all');
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    setPage(1);
+  }, [search, status]);
+
+  const { data } = useQuery({
+    queryKey: ['admin-rides', search, status, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('rides')
+        .select(`
+          id, status, vehicle_type, from_location, to_location, pickup_time, final_fare, estimated_fare, driver_id,
+          customer:profiles!rides_customer_id_fkey(full_name, phone),
+          driver:profiles!rides_driver_id_fkey(full_name, phone)
+        `, { count: 'exact' });
+
+      if (status !== 'all') query = query.eq('status', status);
+      const term = searchTerm(search);
+      if (UUID_PATTERN.test(term)) {
+        query = query.eq('id', term);
+      } else if (term) {
+        query = query.or(`from_location.ilike.*${term}*,to_location.ilike.*${term}*`);
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { rides: data, count: count ?? 0 };
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const rides = data?.rides ?? [];
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['admin-rides'] });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-4">
+        <Input
+          placeholder="Search by ride id or location"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <Select value={status} onValueChange={(value) => setStatus(value as 'all' | RideStatus)}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {RIDE_STATUSES.map((s) => (
+              <SelectItem key={s} value={s}>
+                {s.replace('_', ' ').replace(/^./, (c) => c.toUpperCase())}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ExportRidesDialog />
+      </div>
+
+      {rides.length === 0 ? (
+        <p className="text-muted-foreground text-center py-8">No rides match these filters.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pickup</TableHead>
+              <TableHead>Route</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Driver</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rides.map((ride) => (
+              <TableRow key={ride.id}>
+                <TableCell>{new Date(ride.pickup_time).toLocaleString()}</TableCell>
+                <TableCell>
+                  {ride.from_location} → {ride.to_location}
+                  <p className="text-xs text-muted-foreground">
+                    {ride.vehicle_type.toUpperCase()} · ₹{ride.final_fare || ride.estimated_fare}
+                  </p>
+                </TableCell>
+                <TableCell>
+                  {ride.customer?.full_name || '-'}
+                  <p className="text-xs text-muted-foreground">{ride.customer?.phone}</p>
+                </TableCell>
+                <TableCell>
+                  {ride.driver?.full_name || '-'}
+                  <p className="text-xs text-muted-foreground">{ride.driver?.phone}</p>
+                </TableCell>
+                <TableCell>
+                  <Badge className={getStatusColor(ride.status)}>
+                    {ride.status.replace('_', ' ').toUpperCase()}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    {(ride.status === 'pending' || ride.status === 'accepted') && (
+                      <ReassignRideDialog
+                        rideId={ride.id}
+                        vehicleType={ride.vehicle_type}
+                        currentDriverId={ride.driver_id}
+                        onReassigned={refresh}
+                      />
+                    )}
+                    {['scheduled', 'pending', 'accepted'].includes(ride.status) && (
+                      <div className="w-24">
+                        <CancelRideDialog rideId={ride.id} party="admin" onCancelled={refresh} />
+                      </div>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <ListPagination
+        page={page}
+        pageCount={Math.max(1, Math.ceil((data?.count ?? 0) / PAGE_SIZE))}
+        onPageChange={setPage}
+      />
+    </div>
+  );
+};
+
+const DriverProfileDialog = ({ userId, name }: { userId: string; name: string }) => {
+  const [open, setOpen] = useState(false);
+  const rating = useRatingSummaries(open ? [userId] : [], 'driver')[userId];
+
+  const { data } = useQuery({
+    queryKey: ['admin-driver-profile', userId],
+    queryFn: async () => {
+      const [profile, stats] = await Promise.all([
+        supabase.from('driver_profiles').select('*').eq('user_id', userId).maybeSingle(),
+        supabase.from('driver_offer_stats').select('*').eq('driver_id', userId).maybeSingle(),
+      ]);
+
+      if (profile.error) throw profile.error;
+      if (stats.error) throw stats.error;
+      return { profile: profile.data, stats: stats.data };
+    },
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          View Driver
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{name}</DialogTitle>
+          <DialogDescription>
+            Driver profile · <RatingBadge summary={rating} />
+          </DialogDescription>
+        </DialogHeader>
+        {!data?.profile ? (
+          <p className="text-sm text-muted-foreground">This driver has not set up a vehicle yet.</p>
+        ) : (
+          <div className="space-y-1 text-sm">
+            <p><strong>Vehicle:</strong> {data.profile.vehicle_type.toUpperCase()} - {data.profile.vehicle_number}</p>
+            <p><strong>License:</strong> {data.profile.license_number || '-'}</p>
+            <p><strong>Available:</strong> {data.profile.is_available ? 'Yes' : 'No'}</p>
+            {data.profile.location_updated_at && (
+              <p><strong>Last location:</strong> {new Date(data.profile.location_updated_at).toLocaleString()}</p>
+            )}
+            <p><strong>Joined:</strong> {new Date(data.profile.created_at).toLocaleDateString()}</p>
+            {data.stats && (
+              <p>
+                <strong>Offers:</strong> {data.stats.offers_accepted} accepted, {data.stats.offers_declined} declined,{' '}
+                {data.stats.offers_expired} expired of {data.stats.offers_received}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const UsersTab = () => {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [userType, setUserType] = useState<'all' | UserType>('all');
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    setPage(1);
+  }, [search, userType]);
+
+  const { data } = useQuery({
+    queryKey: ['admin-users', search, userType, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('profiles')
+        .select('user_id, full_name, phone, user_type, suspended_at, suspension_reason, created_at', { count: 'exact' });
+
+      if (userType !== 'all') query = query.eq('user_type', userType);
+      const term = searchTerm(search);
+      if (term) query = query.or(`full_name.ilike.*${term}*,phone.ilike.*${term}*`);
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { users: data, count: count ?? 0 };
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const users = data?.users ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-4">
+        <Input
+          placeholder="Search by name or phone"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <Select value={userType} onValueChange={(value) => setUserType(value as 'all' | UserType)}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All users</SelectItem>
+            {USER_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {type.charAt(0).toUpperCase() + type.slice(1)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {users.length === 0 ? (
+        <p className="text-muted-foreground text-center py-8">No users match these filters.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Phone</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {users.map((profile) => (
+              <TableRow key={profile.user_id}>
+                <TableCell>{profile.full_name || '-'}</TableCell>
+                <TableCell>{profile.phone || '-'}</TableCell>
+                <TableCell>{profile.user_type}</TableCell>
+                <TableCell>
+                  {profile.suspended_at ? (
+                    <div>
+                      <Badge className="bg-red-100 text-red-800">SUSPENDED</Badge>
+                      {profile.suspension_reason && (
+                        <p className="text-xs text-muted-foreground mt-1">{profile.suspension_reason}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <Badge className="bg-green-100 text-green-800">ACTIVE</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    {profile.user_type === 'driver' && (
+                      <DriverProfileDialog userId={profile.user_id} name={profile.full_name || 'Driver'} />
+                    )}
+                    {profile.user_type !== 'admin' && (
+                      <SuspendUserDialog
+                        userId={profile.user_id}
+                        name={profile.full_name || 'This user'}
+                        suspended={!!profile.suspended_at}
+                        onChanged={() => queryClient.invalidateQueries({ queryKey: ['admin-users'] })}
+                      />
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <ListPagination
+        page={page}
+        pageCount={Math.max(1, Math.ceil((data?.count ?? 0) / PAGE_SIZE))}
+        onPageChange={setPage}
+      />
+    </div>
+  );
+};
+
+// Short summary of an audit entry's details for the log table
+const describeDetails = (details: Json) => {
+  if (!details || typeof details !== 'object' || Array.isArray(details)) return '';
+  return Object.entries(details)
+    .filter(([, value]) => value != null && value !== '')
+    .map(([key, value]) => `${key.replace(/_/g, ' ')}: ${value}`)
+    .join(' · ');
+};
+
+const AuditLogTab = () => {
+  const [page, setPage] = useState(1);
+
+  const { data } = useQuery({
+    queryKey: ['admin-audit-log', page],
+    queryFn: async () => {
+      const { data, error, count } = await supabase
+        .from('admin_audit_log')
+        .select('*, admin:profiles!admin_audit_log_admin_id_fkey(full_name)', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { entries: data, count: count ?? 0 };
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const entries = data?.entries ?? [];
+
+  return (
+    <div className="space-y-4">
+      {entries.length === 0 ? (
+        <p className="text-muted-foreground text-center py-8">No admin actions recorded yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Admin</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell>{new Date(entry.created_at).toLocaleString()}</TableCell>
+                <TableCell>{entry.admin?.full_name || '-'}</TableCell>
+                <TableCell>{adminActionLabel(entry.action)}</TableCell>
+                <TableCell className="font-mono text-xs">
+                  {entry.target_type} {entry.target_id.slice(0, 8)}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">{describeDetails(entry.details)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <ListPagination
+        page={page}
+        pageCount={Math.max(1, Math.ceil((data?.count ?? 0) / PAGE_SIZE))}
+        onPageChange={setPage}
+      />
+    </div>
+  );
+};
+
+const AdminConsole = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Button variant="ghost" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to dashboard
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Operations Console
+            </CardTitle>
+            <CardDescription>Every action taken here is recorded in the audit log.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* The server enforces admin access too; this only keeps others from an empty console */}
+            {!isAdmin(user) ? (
+              <p className="text-muted-foreground text-center py-8">You need admin access to view this page.</p>
+            ) : (
+              <Tabs defaultValue="rides">
+                <TabsList>
+                  <TabsTrigger value="rides">Rides</TabsTrigger>
+                  <TabsTrigger value="users">Users</TabsTrigger>
+                  <TabsTrigger value="audit">Audit Log</TabsTrigger>
+                </TabsList>
+                <TabsContent value="rides">
+                  <RidesTab />
+                </TabsContent>
+                <TabsContent value="users">
+                  <UsersTab />
+                </TabsContent>
+                <TabsContent value="audit">
+                  <AuditLogTab />
+                </TabsContent>
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AdminConsole;
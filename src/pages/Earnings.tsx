@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import ExportRidesDialog from '@/components/ExportRidesDialog';
+import ListPagination from '@/components/ListPagination';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  earningsFrom,
+  EarningsPeriod,
+  fillEarningsBuckets,
+  formatBucketLabel,
+} from '@/lib/earnings';
+import { ArrowLeft, DollarSign } from 'lucide-react';
+
+const chartConfig = {
+  earnings: {
+    label: 'Earnings (₹)',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const PERIOD_LABELS: Record<EarningsPeriod, string> = {
+  day: 'Last 14 days',
+  week: 'Last 12 weeks',
+  month: 'Last 12 months',
+};
+
+const TRIPS_PAGE_SIZE = 10;
+
+const formatRate = (rate: number | null) => (rate == null ? '-' : `${Math.round(rate * 100)}%`);
+
+const Earnings = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [period, setPeriod] = useState<EarningsPeriod>('day');
+  const [tripsPage, setTripsPage] = useState(1);
+  // Fixed per visit so the query key stays stable between renders
+  const [now] = useState(() => new Date());
+  const from = earningsFrom(period, now).toISOString();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // A new period starts the trip list again from the first page
+  useEffect(() => {
+    setTripsPage(1);
+  }, [period]);
+
+  const { data: buckets = [] } = useQuery({
+    queryKey: ['driver-earnings', period, from],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_driver_earnings', {
+        p_period: period,
+        p_from: from,
+        p_tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const { data: offerStats } = useQuery({
+    queryKey: ['driver-offer-stats'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('driver_offer_stats')
+        .select('*')
+        .eq('driver_id', user?.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  // Rides we accepted and then cancelled in the same window
+  const { data: driverCancellations = 0 } = useQuery({
+    queryKey: ['driver-cancellations', from],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('ride_cancellations')
+        .select('id', { count: 'exact', head: true })
+        .eq('cancelled_by', user?.id)
+        .eq('cancelled_by_role', 'driver')
+        .gte('created_at', from);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+    enabled: !!user,
+  });
+
+  const { data: tripHistory } = useQuery({
+    queryKey: ['driver-trip-history', from, tripsPage],
+    queryFn: async () => {
+      const { data, error, count } = await supabase
+        .from('rides')
+        .select('id, from_location, to_location, completed_at, vehicle_type, distance_km, final_fare', { count: 'exact' })
+        .eq('driver_id', user?.id)
+        .eq('status', 'completed')
+        .gte('completed_at', from)
+        .order('completed_at', { ascending: false })
+        .range((tripsPage - 1) * TRIPS_PAGE_SIZE, tripsPage * TRIPS_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { trips: data, count: count ?? 0 };
+    },
+    enabled: !!user,
+    placeholderData: (previous) => previous,
+  });
+
+  const trips = tripHistory?.trips ?? [];
+  const tripsPageCount = Math.max(1, Math.ceil((tripHistory?.count ?? 0) / TRIPS_PAGE_SIZE));
+
+  const chartData = fillEarningsBuckets(period, now, buckets).map((bucket) => ({
+    ...bucket,
+    label: formatBucketLabel(period, bucket.period_start),
+  }));
+
+  const totalEarnings = buckets.reduce((sum, bucket) => sum + Number(bucket.earnings), 0);
+  const totalTrips = buckets.reduce((sum, bucket) => sum + bucket.trips, 0);
+  const totalDistance = buckets.reduce((sum, bucket) => sum + Number(bucket.distance_km), 0);
+  const cancellationRate = totalTrips + driverCancellations > 0
+    ? driverCancellations / (totalTrips + driverCancellations)
+    : null;
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Button variant="ghost" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to dashboard
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <DollarSign className="h-5 w-5" />
+                  Earnings
+                </CardTitle>
+                <CardDescription>{PERIOD_LABELS[period]}</CardDescription>
+              </div>
+              <Tabs value={period} onValueChange={(value) => setPeriod(value as EarningsPeriod)}>
+                <TabsList>
+                  <TabsTrigger value="day">Daily</TabsTrigger>
+                  <TabsTrigger value="week">Weekly</TabsTrigger>
+                  <TabsTrigger value="month">Monthly</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="border rounded-lg p-4">
+                <p className="text-sm text-muted-foreground">Earnings</p>
+                <p className="text-2xl font-bold">₹{totalEarnings.toFixed(2)}</p>
+              </div>
+              <div className="border rounded-lg p-4">
+                <p className="text-sm text-muted-foreground">Trips</p>
+                <p className="text-2xl font-bold">{totalTrips}</p>
+              </div>
+              <div className="border rounded-lg p-4">
+                <p className="text-sm text-muted-foreground">Distance</p>
+                <p className="text-2xl font-bold">{totalDistance.toFixed(1)} km</p>
+              </div>
+              <div className="border rounded-lg p-4">
+                <p className="text-sm text-muted-foreground">Offer acceptance</p>
+                <p className="text-2xl font-bold">{formatRate(offerStats?.acceptance_rate ?? null)}</p>
+              </div>
+              <div className="border rounded-lg p-4">
+                <p className="text-sm text-muted-foreground">Cancellation rate</p>
+                <p className="text-2xl font-bold">{formatRate(cancellationRate)}</p>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={48} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="earnings" fill="var(--color-earnings)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>Completed Trips</CardTitle>
+                <CardDescription>Your trips in this period, most recent first</CardDescription>
+              </div>
+              <ExportRidesDialog />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {trips.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">No completed trips in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Completed</TableHead>
+                    <TableHead>Route</TableHead>
+                    <TableHead>Vehicle</TableHead>
+                    <TableHead className="text-right">Distance</TableHead>
+                    <TableHead className="text-right">Fare</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trips.map((trip) => (
+                    <TableRow key={trip.id}>
+                      <TableCell>{trip.completed_at && new Date(trip.completed_at).toLocaleString()}</TableCell>
+                      <TableCell>{trip.from_location} → {trip.to_location}</TableCell>
+                      <TableCell>{trip.vehicle_type.toUpperCase()}</TableCell>
+                      <TableCell className="text-right">{trip.distance_km != null ? `${trip.distance_km} km` : '-'}</TableCell>
+                      <TableCell className="text-right">{trip.final_fare != null ? `₹${trip.final_fare}` : '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <ListPagination page={tripsPage} pageCount={tripsPageCount} onPageChange={setTripsPage} />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Earnings;
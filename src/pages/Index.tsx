@@ -1,16 +1,19 @@
 import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import CustomerDashboard from '@/components/CustomerDashboard';
 import DriverDashboard from '@/components/DriverDashboard';
-import { Car } from 'lucide-react';
+import NotificationBell from '@/components/NotificationBell';
+import { isAdmin } from '@/lib/admin';
+import { Car, ShieldCheck } from 'lucide-react';
 
 const Index = () => {
   const { user, loading, signOut } = useAuth();
   const navigate = useNavigate();
-  const [userProfile, setUserProfile] = useState<any>(null);
+  const [userProfile, setUserProfile] = useState<Tables<'profiles'> | null>(null);
   const [profileLoading, setProfileLoading] = useState(true);
 
   useEffect(() => {
@@ -64,6 +67,7 @@ const Index = () => {
             <h1 className="text-2xl font-bold">LocalRide</h1>
           </div>
           <div className="flex items-center gap-4">
+            <NotificationBell />
             <span className="text-sm text-muted-foreground">
               Welcome, {user.user_metadata?.full_name || user.email}
             </span>
@@ -75,7 +79,20 @@ const Index = () => {
       </header>
       
       <main className="container mx-auto px-4 py-8">
-        {userProfile?.user_type === 'customer' ? (
+        {isAdmin(user) ? (
+          <div className="text-center">
+            <h2 className="text-3xl font-bold mb-4">LocalRide Operations</h2>
+            <p className="text-xl text-muted-foreground mb-8">
+              Manage rides, drivers and customers from the operations console.
+            </p>
+            <Button asChild>
+              <Link to="/admin">
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Open Operations Console
+              </Link>
+            </Button>
+          </div>
+        ) : userProfile?.user_type === 'customer' ? (
           <CustomerDashboard />
         ) : userProfile?.user_type === 'driver' ? (
           <DriverDashboard />
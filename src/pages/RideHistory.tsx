@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ListPagination from '@/components/ListPagination';
+import ExportRidesDialog from '@/components/ExportRidesDialog';
+import RateRideDialog from '@/components/RateRideDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { RebookableRide, useRebookRide } from '@/hooks/useRebookRide';
+import { reasonLabel } from '@/lib/cancellation';
+import { isWithinRatingWindow } from '@/lib/ratings';
+import { getStatusColor } from '@/lib/rideStatus';
+import { ArrowLeft, Clock, Receipt } from 'lucide-react';
+
+const PAGE_SIZE = 10;
+
+const STATUSES = ['scheduled', 'pending', 'accepted', 'in_progress', 'completed', 'cancelled', 'expired'] as const;
+const VEHICLE_TYPES = ['car', 'auto', 'bike'] as const;
+
+type RideStatus = typeof STATUSES[number];
+type VehicleType = typeof VEHICLE_TYPES[number];
+
+interface HistoryRide extends RebookableRide {
+  id: string;
+  pickup_time: string;
+  vehicle_type: VehicleType;
+  status: RideStatus;
+  distance_km: number | null;
+  estimated_fare: number | null;
+  final_fare: number | null;
+  completed_at: string | null;
+  cancellation_reason: string | null;
+  cancellation_fee: number | null;
+  ride_ratings: { rater_id: string; rating: number }[];
+}
+
+const RideHistory = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<'all' | RideStatus>('all');
+  const [vehicleType, setVehicleType] = useState<'all' | VehicleType>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [status, vehicleType, fromDate, toDate]);
+
+  const rebookRide = useRebookRide();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['ride-history', user?.id, status, vehicleType, fromDate, toDate, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('rides')
+        .select(`
+          id, from_location, to_location, from_latitude, from_longitude, to_latitude, to_longitude,
+          pickup_time, vehicle_type, status, distance_km, estimated_fare, final_fare, notes,
+          min_price, max_price, driver_price, completed_at, cancellation_reason, cancellation_fee,
+          ride_ratings(rater_id, rating)
+        `, { count: 'exact' })
+        .eq('customer_id', user?.id);
+
+      if (status !== 'all') query = query.eq('status', status);
+      if (vehicleType !== 'all') query = query.eq('vehicle_type', vehicleType);
+      // Dates are picked in local time; the end date includes the whole day
+      if (fromDate) query = query.gte('pickup_time', new Date(`${fromDate}T00:00:00`).toISOString());
+      if (toDate) query = query.lt('pickup_time', new Date(new Date(`${toDate}T00:00:00`).getTime() + 86400000).toISOString());
+
+      const { data, error, count } = await query
+        .order('pickup_time', { ascending: false })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { rides: data as HistoryRide[], count: count ?? 0 };
+    },
+    enabled: !!user,
+    placeholderData: (previous) => previous,
+  });
+
+  const rides = data?.rides ?? [];
+  const pageCount = Math.max(1, Math.ceil((data?.count ?? 0) / PAGE_SIZE));
+
+  const clearFilters = () => {
+    setStatus('all');
+    setVehicleType('all');
+    setFromDate('');
+    setToDate('');
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Button variant="ghost" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to dashboard
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Ride History
+              </CardTitle>
+              <ExportRidesDialog />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid md:grid-cols-5 gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={status} onValueChange={(value) => setStatus(value as 'all' | RideStatus)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {STATUSES.map((s) => (
+                      <SelectItem key={s} value={s}>
+                        {s.replace('_', ' ').replace(/^./, (c) => c.toUpperCase())}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Vehicle Type</Label>
+                <Select value={vehicleType} onValueChange={(value) => setVehicleType(value as 'all' | VehicleType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All vehicles</SelectItem>
+                    {VEHICLE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type.charAt(0).toUpperCase() + type.slice(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="history-from">From</Label>
+                <Input
+                  id="history-from"
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => setFromDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="history-to">To</Label>
+                <Input
+                  id="history-to"
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => setToDate(e.target.value)}
+                />
+              </div>
+              <Button variant="outline" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <p className="text-muted-foreground text-center py-8">Loading rides...</p>
+            ) : rides.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">No rides match these filters.</p>
+            ) : (
+              <div className="space-y-4">
+                {rides.map((ride) => (
+                  <div key={ride.id} className="border rounded-lg p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                    <div className="space-y-1 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{ride.vehicle_type.toUpperCase()}</span>
+                        <Badge className={getStatusColor(ride.status)}>
+                          {ride.status.replace('_', ' ').toUpperCase()}
+                        </Badge>
+                      </div>
+                      <p><strong>From:</strong> {ride.from_location}</p>
+                      <p><strong>To:</strong> {ride.to_location}</p>
+                      <p><strong>Pickup:</strong> {new Date(ride.pickup_time).toLocaleString()}</p>
+                      {ride.distance_km && <p><strong>Distance:</strong> {ride.distance_km} km</p>}
+                      {ride.estimated_fare && <p><strong>Fare:</strong> ₹{ride.final_fare || ride.estimated_fare}</p>}
+                      {ride.status === 'cancelled' && ride.cancellation_reason && (
+                        <p>
+                          <strong>Cancelled:</strong> {reasonLabel(ride.cancellation_reason)}
+                          {ride.cancellation_fee > 0 && ` (fee ₹${ride.cancellation_fee})`}
+                        </p>
+                      )}
+                    </div>
+                    {ride.status === 'completed' && (
+                      <div className="flex flex-col items-start md:items-end gap-2">
+                        {ride.ride_ratings.some((r) => r.rater_id === user.id) ? (
+                          <p className="text-sm text-muted-foreground">
+                            You rated this ride {ride.ride_ratings.find((r) => r.rater_id === user.id)?.rating}★
+                          </p>
+                        ) : isWithinRatingWindow(ride.completed_at) ? (
+                          <RateRideDialog
+                            rideId={ride.id}
+                            ratee="driver"
+                            onRated={() => queryClient.invalidateQueries({ queryKey: ['ride-history'] })}
+                          />
+                        ) : null}
+                        <Button variant="outline" size="sm" asChild>
+                          <Link to={`/rides/${ride.id}/receipt`}>
+                            <Receipt className="h-4 w-4 mr-2" />
+                            Receipt
+                          </Link>
+                        </Button>
+                      </div>
+                    )}
+                    {ride.status === 'expired' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => rebookRide.mutate(ride)}
+                        disabled={rebookRide.isPending}
+                      >
+                        {rebookRide.isPending ? 'Re-booking...' : 'Re-book This Ride'}
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default RideHistory;
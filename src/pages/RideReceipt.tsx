@@ -0,0 +1,131 @@
+import { useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { saveFile } from '@/lib/download';
+import { receiptLineItems, receiptNumber, receiptText, receiptTotal, RideReceipt as Receipt } from '@/lib/receipt';
+import { ArrowLeft, Car, Download, Printer } from 'lucide-react';
+
+const RideReceipt = () => {
+  const { rideId } = useParams<{ rideId: string }>();
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  const { data: receipt, isLoading } = useQuery({
+    queryKey: ['ride-receipt', rideId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_ride_receipt', { p_ride_id: rideId });
+      if (error) throw error;
+      return (data?.[0] ?? null) as unknown as Receipt | null;
+    },
+    enabled: !!user && !!rideId,
+  });
+
+  const downloadReceipt = () => {
+    if (!receipt) return;
+    saveFile(receiptText(receipt), `${receiptNumber(receipt.id)}.txt`, 'text/plain;charset=utf-8');
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <div className="flex justify-between items-center print:hidden">
+          <Button variant="ghost" asChild>
+            <Link to="/rides/history">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Ride history
+            </Link>
+          </Button>
+          {receipt && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => window.print()}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print
+              </Button>
+              <Button variant="outline" onClick={downloadReceipt}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-8">Loading receipt...</p>
+        ) : !receipt ? (
+          <p className="text-muted-foreground text-center py-8">
+            Receipts are available for your completed rides only.
+          </p>
+        ) : (
+          <Card className="print:shadow-none print:border-0">
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Car className="h-6 w-6 text-primary" />
+                <span className="text-xl font-bold">LocalRide</span>
+              </div>
+              <CardTitle>Trip Receipt</CardTitle>
+              <CardDescription>
+                {receiptNumber(receipt.id)} · {new Date(receipt.completed_at ?? receipt.pickup_time).toLocaleString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div className="space-y-1">
+                <p><strong>From:</strong> {receipt.from_location}</p>
+                <p><strong>To:</strong> {receipt.to_location}</p>
+                {receipt.distance_km != null && <p><strong>Distance:</strong> {receipt.distance_km} km</p>}
+                {receipt.started_at && receipt.completed_at && (
+                  <p>
+                    <strong>Trip:</strong> {new Date(receipt.started_at).toLocaleTimeString()} -{' '}
+                    {new Date(receipt.completed_at).toLocaleTimeString()}
+                  </p>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-1">
+                <p><strong>Driver:</strong> {receipt.driver_name ?? '-'}</p>
+                <p>
+                  <strong>Vehicle:</strong> {receipt.vehicle_type.toUpperCase()}
+                  {receipt.vehicle_number && ` (${receipt.vehicle_number})`}
+                </p>
+                <p><strong>Customer:</strong> {receipt.customer_name ?? '-'}</p>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-1">
+                {receiptLineItems(receipt).map((item) => (
+                  <div key={item.label} className="flex justify-between">
+                    <span>{item.label}</span>
+                    <span>₹{item.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-semibold text-base pt-2">
+                  <span>Total</span>
+                  <span>₹{receiptTotal(receipt).toFixed(2)}</span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default RideReceipt;
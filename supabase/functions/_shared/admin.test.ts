@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { adminActionLabel, isAdmin, isAdminAction } from './admin.ts';
+
+describe('isAdminAction', () => {
+  it('accepts the console actions', () => {
+    for (const action of ['reassign_ride', 'cancel_ride', 'suspend_user', 'reinstate_user']) {
+      expect(isAdminAction(action)).toBe(true);
+    }
+  });
+
+  it('rejects inherited object keys', () => {
+    for (const action of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+      expect(isAdminAction(action)).toBe(false);
+    }
+  });
+
+  it('rejects anything that is not a string', () => {
+    expect(isAdminAction(undefined)).toBe(false);
+    expect(isAdminAction({})).toBe(false);
+  });
+});
+
+describe('adminActionLabel', () => {
+  it('falls back to the raw action for unknown ones', () => {
+    expect(adminActionLabel('suspend_user')).toBe('Suspended user');
+    expect(adminActionLabel('toString')).toBe('toString');
+  });
+});
+
+describe('isAdmin', () => {
+  it('only trusts the app_metadata role', () => {
+    expect(isAdmin({ app_metadata: { role: 'admin' } })).toBe(true);
+    expect(isAdmin({ app_metadata: {} })).toBe(false);
+    expect(isAdmin(null)).toBe(false);
+  });
+});
@@ -0,0 +1,20 @@
+// Admin actions shared by admin-actions and the operations console.
+
+export type AdminAction = 'reassign_ride' | 'cancel_ride' | 'suspend_user' | 'reinstate_user';
+
+export const ADMIN_ACTION_LABELS: Record<AdminAction, string> = {
+  reassign_ride: 'Reassigned ride',
+  cancel_ride: 'Cancelled ride',
+  suspend_user: 'Suspended user',
+  reinstate_user: 'Reinstated user',
+};
+
+export const isAdminAction = (action: unknown): action is AdminAction =>
+  typeof action === 'string' && Object.prototype.hasOwnProperty.call(ADMIN_ACTION_LABELS, action);
+
+// Admin rights come from app_metadata, which users cannot edit themselves
+export const isAdmin = (user: { app_metadata?: Record<string, unknown> } | null | undefined) =>
+  user?.app_metadata?.role === 'admin';
+
+export const adminActionLabel = (action: string) =>
+  isAdminAction(action) ? ADMIN_ACTION_LABELS[action] : action;
@@ -0,0 +1,34 @@
+// Cancellation reason codes shared by cancel-ride and the dashboards.
+
+export type CancellingParty = 'customer' | 'driver' | 'admin';
+
+export const CANCELLATION_REASONS: Record<CancellingParty, { code: string; label: string }[]> = {
+  customer: [
+    { code: 'change_of_plans', label: 'My plans changed' },
+    { code: 'driver_delayed', label: 'Driver is taking too long' },
+    { code: 'found_alternative', label: 'Found another ride' },
+    { code: 'booked_by_mistake', label: 'Booked by mistake' },
+    { code: 'other', label: 'Other' },
+  ],
+  driver: [
+    { code: 'vehicle_issue', label: 'Vehicle problem' },
+    { code: 'customer_unreachable', label: 'Customer unreachable' },
+    { code: 'pickup_too_far', label: 'Pickup is too far' },
+    { code: 'emergency', label: 'Personal emergency' },
+    { code: 'other', label: 'Other' },
+  ],
+  admin: [
+    { code: 'customer_request', label: 'Cancelled by support at the customer\'s request' },
+    { code: 'driver_unavailable', label: 'Cancelled by support: no driver available' },
+    { code: 'safety_concern', label: 'Cancelled by support: safety concern' },
+    { code: 'duplicate_booking', label: 'Cancelled by support: duplicate booking' },
+  ],
+};
+
+export const isValidReason = (party: CancellingParty, code: string) =>
+  CANCELLATION_REASONS[party].some((reason) => reason.code === code);
+
+export const reasonLabel = (code: string | null | undefined) =>
+  Object.values(CANCELLATION_REASONS).flat().find((reason) => reason.code === code)?.label ??
+  code ??
+  '';
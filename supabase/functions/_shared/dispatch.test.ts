@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_DISPATCH_SETTINGS,
+  DispatchCandidate,
+  DispatchState,
+  planDispatch,
+  rankDrivers,
+  waveRadiusKm,
+} from './dispatch.ts';
+
+const now = new Date('2025-01-01T12:00:00Z');
+const pickup = { latitude: 12.9716, longitude: 77.5946 };
+
+// Kilometres per degree of latitude on the sphere haversineKm uses
+const KM_PER_DEGREE = (6371 * Math.PI) / 180;
+
+// A synthetic driver the given distance due north of the pickup
+const driverAt = (
+  driver_id: string,
+  km: number,
+  overrides: Partial<DispatchCandidate> = {},
+): DispatchCandidate => ({
+  driver_id,
+  latitude: pickup.latitude + km / KM_PER_DEGREE,
+  longitude: pickup.longitude,
+  location_updated_at: now.toISOString(),
+  rating: null,
+  acceptance_rate: null,
+  ...overrides,
+});
+
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60_000).toISOString();
+
+const ids = (drivers: { driver_id: string }[]) => drivers.map((driver) => driver.driver_id);
+
+const freshRide: DispatchState = {
+  pickup,
+  wavesSent: 0,
+  lastWaveAt: null,
+  offeredDriverIds: [],
+  liveOfferCount: 0,
+};
+
+describe('rankDrivers', () => {
+  it('orders drivers nearest first with their distance', () => {
+    const ranked = rankDrivers(pickup, [driverAt('far', 4), driverAt('near', 1), driverAt('mid', 2.5)], now);
+
+    expect(ids(ranked)).toEqual(['near', 'mid', 'far']);
+    expect(ranked[0].distance_km).toBeCloseTo(1, 1);
+  });
+
+  it('leaves out drivers beyond the radius', () => {
+    const fleet = [driverAt('a', 2), driverAt('b', 5), driverAt('c', 9)];
+
+    expect(ids(rankDrivers(pickup, fleet, now))).toEqual(['a', 'b']);
+    expect(ids(rankDrivers(pickup, fleet, now, DEFAULT_DISPATCH_SETTINGS, 3))).toEqual(['a']);
+  });
+
+  it('ignores stale or missing locations', () => {
+    const fleet = [
+      driverAt('fresh', 2, { location_updated_at: minutesAgo(9) }),
+      driverAt('stale', 1, { location_updated_at: minutesAgo(11) }),
+      driverAt('never', 1, { location_updated_at: null }),
+      driverAt('nowhere', 1, { latitude: null, longitude: null }),
+    ];
+
+    expect(ids(rankDrivers(pickup, fleet, now))).toEqual(['fresh']);
+  });
+
+  it('prefers the better rated driver at about the same distance', () => {
+    const fleet = [driverAt('closer', 1.1, { rating: 4.2 }), driverAt('better', 1.3, { rating: 4.9 })];
+
+    expect(ids(rankDrivers(pickup, fleet, now))).toEqual(['better', 'closer']);
+  });
+
+  it('does not let rating outweigh a clearly shorter pickup', () => {
+    const fleet = [driverAt('star', 1.6, { rating: 5 }), driverAt('near', 0.6, { rating: 3 })];
+
+    expect(ids(rankDrivers(pickup, fleet, now))).toEqual(['near', 'star']);
+  });
+
+  it('breaks rating ties on acceptance rate', () => {
+    const fleet = [
+      driverAt('picky', 1.1, { rating: 4.5, acceptance_rate: 0.4 }),
+      driverAt('keen', 1.3, { rating: 4.5, acceptance_rate: 0.9 }),
+    ];
+
+    expect(ids(rankDrivers(pickup, fleet, now))).toEqual(['keen', 'picky']);
+  });
+
+  it('ranks unknown ratings and rates below known ones', () => {
+    const fleet = [
+      driverAt('new', 1.1),
+      driverAt('rated', 1.3, { rating: 3.5 }),
+      driverAt('unrated', 1.4, { acceptance_rate: 0.5 }),
+    ];
+
+    expect(ids(rankDrivers(pickup, fleet, now))).toEqual(['rated', 'unrated', 'new']);
+  });
+
+  it('falls back to distance, freshness and id for full ties', () => {
+    const fleet = [
+      driverAt('b', 1.2),
+      driverAt('older', 1.1, { location_updated_at: minutesAgo(5) }),
+      driverAt('newer', 1.1, { location_updated_at: minutesAgo(1) }),
+      driverAt('a', 1.2),
+    ];
+
+    expect(ids(rankDrivers(pickup, fleet, now))).toEqual(['newer', 'older', 'a', 'b']);
+  });
+});
+
+describe('waveRadiusKm', () => {
+  it('grows from the initial radius to the maximum over the waves', () => {
+    expect([1, 2, 3].map((wave) => waveRadiusKm(wave))).toEqual([3, 5.5, 8]);
+  });
+
+  it('never passes the maximum radius', () => {
+    expect(waveRadiusKm(10)).toBe(8);
+    expect(waveRadiusKm(1, { ...DEFAULT_DISPATCH_SETTINGS, maxWaves: 1 })).toBe(8);
+  });
+});
+
+describe('planDispatch', () => {
+  it('opens the board when the pickup has no coordinates', () => {
+    expect(planDispatch({ ...freshRide, pickup: null }, [driverAt('a', 1)], now)).toEqual({
+      action: 'open_board',
+      reason: 'no_location',
+    });
+  });
+
+  it('offers the first wave within the initial radius only', () => {
+    const fleet = [driverAt('1km', 1), driverAt('2km', 2), driverAt('4km', 4), driverAt('6km', 6)];
+    const plan = planDispatch(freshRide, fleet, now);
+
+    expect(plan).toMatchObject({ action: 'offer', wave: 1, expiresAt: '2025-01-01T12:00:30.000Z' });
+    expect(plan.action === 'offer' && ids(plan.drivers)).toEqual(['1km', '2km']);
+  });
+
+  it('widens the radius for later waves and skips drivers already offered', () => {
+    const fleet = [driverAt('1km', 1), driverAt('2km', 2), driverAt('4km', 4), driverAt('6km', 6)];
+    const plan = planDispatch(
+      { ...freshRide, wavesSent: 1, lastWaveAt: minutesAgo(1), offeredDriverIds: ['1km', '2km'] },
+      fleet,
+      now,
+    );
+
+    expect(plan).toMatchObject({ action: 'offer', wave: 2 });
+    expect(plan.action === 'offer' && ids(plan.drivers)).toEqual(['4km']);
+  });
+
+  it('skips straight to a wider wave when nobody is in range yet', () => {
+    const plan = planDispatch(freshRide, [driverAt('7km', 7)], now);
+
+    expect(plan).toMatchObject({ action: 'offer', wave: 3 });
+    expect(plan.action === 'offer' && ids(plan.drivers)).toEqual(['7km']);
+  });
+
+  it('offers at most a wave of drivers at a time, best first', () => {
+    const fleet = Array.from({ length: 10 }, (_, i) => driverAt(`d${i}`, 0.2 + i * 0.25));
+    const plan = planDispatch(freshRide, fleet, now);
+
+    expect(plan.action === 'offer' && ids(plan.drivers)).toEqual(['d0', 'd1', 'd2']);
+  });
+
+  it('waits while the latest wave still has live offers', () => {
+    const state = { ...freshRide, wavesSent: 1, lastWaveAt: now.toISOString(), offeredDriverIds: ['a'], liveOfferCount: 1 };
+
+    expect(planDispatch(state, [driverAt('b', 1)], now)).toEqual({
+      action: 'wait',
+      until: '2025-01-01T12:00:30.000Z',
+    });
+  });
+
+  it('moves on without waiting once every offer in the wave is declined', () => {
+    const state = { ...freshRide, wavesSent: 1, lastWaveAt: now.toISOString(), offeredDriverIds: ['a'], liveOfferCount: 0 };
+
+    expect(planDispatch(state, [driverAt('a', 1), driverAt('b', 1)], now)).toMatchObject({ action: 'offer', wave: 2 });
+  });
+
+  it('opens the board after the last wave', () => {
+    const state = { ...freshRide, wavesSent: 3, lastWaveAt: minutesAgo(1), offeredDriverIds: ['a'] };
+
+    expect(planDispatch(state, [driverAt('b', 1)], now)).toEqual({ action: 'open_board', reason: 'waves_exhausted' });
+  });
+
+  it('opens the board when no driver is left to offer', () => {
+    expect(planDispatch(freshRide, [driverAt('far', 12)], now)).toEqual({ action: 'open_board', reason: 'no_candidates' });
+    expect(planDispatch({ ...freshRide, offeredDriverIds: ['a'] }, [driverAt('a', 1)], now)).toEqual({
+      action: 'open_board',
+      reason: 'no_candidates',
+    });
+  });
+});
@@ -0,0 +1,167 @@
+// Nearest-driver dispatch: a pending ride is offered to the closest available
+// drivers in waves, searching further out with each wave, and opened to the
+// whole board if nobody takes it.
+// Pure logic only; dispatcher.ts applies the plans to the database.
+
+import { Coordinates, haversineKm, isValidCoordinates } from './geo.ts';
+
+export interface DispatchSettings {
+  // Drivers offered the ride per wave
+  waveSize: number;
+  // How long a wave's offers stay exclusive before the next wave goes out
+  waveTimeoutSeconds: number;
+  // Waves sent before the ride falls back to the open board
+  maxWaves: number;
+  // The first wave searches this far from the pickup; the radius grows with
+  // each wave until the last one reaches maxRadiusKm
+  initialRadiusKm: number;
+  // Drivers further than this from the pickup are never offered the ride
+  maxRadiusKm: number;
+  // Drivers this close to each other in distance are ranked by rating and
+  // acceptance rate instead
+  distanceBandKm: number;
+  // Locations older than this are treated as unknown
+  locationMaxAgeMinutes: number;
+}
+
+export const DEFAULT_DISPATCH_SETTINGS: DispatchSettings = {
+  waveSize: 3,
+  waveTimeoutSeconds: 30,
+  maxWaves: 3,
+  initialRadiusKm: 3,
+  maxRadiusKm: 8,
+  distanceBandKm: 0.5,
+  locationMaxAgeMinutes: 10,
+};
+
+export interface DispatchCandidate {
+  driver_id: string;
+  latitude: number | null;
+  longitude: number | null;
+  location_updated_at: string | null;
+  // Average rating from customers and share of offers accepted; null until known
+  rating: number | null;
+  acceptance_rate: number | null;
+}
+
+export interface RankedDriver {
+  driver_id: string;
+  distance_km: number;
+}
+
+// Search radius for a wave, growing evenly from initialRadiusKm to maxRadiusKm
+export const waveRadiusKm = (wave: number, settings: DispatchSettings = DEFAULT_DISPATCH_SETTINGS) => {
+  if (settings.maxWaves <= 1) return settings.maxRadiusKm;
+  const step = (settings.maxRadiusKm - settings.initialRadiusKm) / (settings.maxWaves - 1);
+  return Math.min(settings.maxRadiusKm, settings.initialRadiusKm + step * (Math.max(wave, 1) - 1));
+};
+
+// Unknown ratings and rates rank below any known one
+const descendingKnown = (a: number | null, b: number | null) => (b ?? -1) - (a ?? -1);
+
+// Available drivers within the radius of the pickup, nearest first. Within a
+// distance band the better rated driver goes first, then the one who accepts
+// more offers; remaining ties go to the nearer driver, then the fresher
+// location, then driver id so the order is stable.
+export const rankDrivers = (
+  pickup: Coordinates,
+  candidates: DispatchCandidate[],
+  now: Date,
+  settings: DispatchSettings = DEFAULT_DISPATCH_SETTINGS,
+  radiusKm: number = settings.maxRadiusKm,
+): RankedDriver[] => {
+  const oldest = now.getTime() - settings.locationMaxAgeMinutes * 60_000;
+
+  return candidates
+    .filter((candidate) => {
+      const position = { latitude: candidate.latitude, longitude: candidate.longitude };
+      return (
+        isValidCoordinates(position) &&
+        !!candidate.location_updated_at &&
+        new Date(candidate.location_updated_at).getTime() >= oldest
+      );
+    })
+    .map((candidate) => {
+      const distance_km = haversineKm(pickup, {
+        latitude: candidate.latitude as number,
+        longitude: candidate.longitude as number,
+      });
+      return {
+        driver_id: candidate.driver_id,
+        distance_km,
+        band: Math.floor(distance_km / settings.distanceBandKm),
+        rating: candidate.rating,
+        acceptance_rate: candidate.acceptance_rate,
+        updated_at: new Date(candidate.location_updated_at as string).getTime(),
+      };
+    })
+    .filter((driver) => driver.distance_km <= radiusKm)
+    .sort((a, b) =>
+      a.band - b.band ||
+      descendingKnown(a.rating, b.rating) ||
+      descendingKnown(a.acceptance_rate, b.acceptance_rate) ||
+      a.distance_km - b.distance_km ||
+      b.updated_at - a.updated_at ||
+      a.driver_id.localeCompare(b.driver_id)
+    )
+    .map(({ driver_id, distance_km }) => ({ driver_id, distance_km }));
+};
+
+export interface DispatchState {
+  pickup: Partial<Coordinates> | null;
+  // Waves already sent and when the latest one went out
+  wavesSent: number;
+  lastWaveAt: string | null;
+  // Drivers who have already been offered (or declined) this ride, in any wave
+  offeredDriverIds: string[];
+  // Offers from the latest wave still awaiting an answer; once every driver
+  // has declined, the next wave goes out without waiting for the timeout
+  liveOfferCount: number;
+}
+
+export type DispatchPlan =
+  | { action: 'offer'; wave: number; drivers: RankedDriver[]; expiresAt: string }
+  | { action: 'wait'; until: string }
+  | { action: 'open_board'; reason: 'no_location' | 'no_candidates' | 'waves_exhausted' };
+
+// Decides the next step for one pending ride that is not yet on the open board
+export const planDispatch = (
+  state: DispatchState,
+  candidates: DispatchCandidate[],
+  now: Date,
+  settings: DispatchSettings = DEFAULT_DISPATCH_SETTINGS,
+): DispatchPlan => {
+  if (!isValidCoordinates(state.pickup)) {
+    return { action: 'open_board', reason: 'no_location' };
+  }
+
+  if (state.lastWaveAt && state.liveOfferCount > 0) {
+    const waveEnds = new Date(state.lastWaveAt).getTime() + settings.waveTimeoutSeconds * 1000;
+    if (waveEnds > now.getTime()) {
+      return { action: 'wait', until: new Date(waveEnds).toISOString() };
+    }
+  }
+
+  if (state.wavesSent >= settings.maxWaves) {
+    return { action: 'open_board', reason: 'waves_exhausted' };
+  }
+
+  // A wave with nobody in range is skipped in favour of the next, wider one
+  const offered = new Set(state.offeredDriverIds);
+  for (let wave = state.wavesSent + 1; wave <= settings.maxWaves; wave++) {
+    const drivers = rankDrivers(state.pickup, candidates, now, settings, waveRadiusKm(wave, settings))
+      .filter((driver) => !offered.has(driver.driver_id))
+      .slice(0, settings.waveSize);
+
+    if (drivers.length > 0) {
+      return {
+        action: 'offer',
+        wave,
+        drivers,
+        expiresAt: new Date(now.getTime() + settings.waveTimeoutSeconds * 1000).toISOString(),
+      };
+    }
+  }
+
+  return { action: 'open_board', reason: 'no_candidates' };
+};
@@ -0,0 +1,157 @@
+// Applies dispatch plans to the database for create-ride and dispatch-rides.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DispatchCandidate, DispatchPlan, planDispatch } from './dispatch.ts';
+
+export interface DispatchableRide {
+  id: string;
+  customer_id: string;
+  vehicle_type: string;
+  from_latitude: number | null;
+  from_longitude: number | null;
+  dispatch_wave: number;
+  dispatch_wave_at: string | null;
+}
+
+export const DISPATCHABLE_RIDE_COLUMNS =
+  'id, customer_id, vehicle_type, from_latitude, from_longitude, dispatch_wave, dispatch_wave_at';
+
+// Available drivers of the ride's vehicle type who are not already serving a
+// ride, with the rating and acceptance rate used to break distance ties
+const loadCandidates = async (supabase: SupabaseClient, ride: DispatchableRide) => {
+  const [{ data: drivers, error: driversError }, { data: busyRides, error: busyError }] = await Promise.all([
+    supabase
+      .from('driver_profiles')
+      .select('user_id, current_latitude, current_longitude, location_updated_at, profiles!inner(suspended_at)')
+      .eq('vehicle_type', ride.vehicle_type)
+      .eq('is_available', true)
+      .is('profiles.suspended_at', null),
+    supabase
+      .from('rides')
+      .select('driver_id')
+      .in('status', ['accepted', 'in_progress'])
+      .not('driver_id', 'is', null),
+  ]);
+
+  if (driversError) throw driversError;
+  if (busyError) throw busyError;
+
+  const busy = new Set((busyRides ?? []).map((r) => r.driver_id));
+  const free = (drivers ?? []).filter((d) => !busy.has(d.user_id) && d.user_id !== ride.customer_id);
+  const ids = free.map((d) => d.user_id);
+
+  const [{ data: ratings, error: ratingsError }, { data: stats, error: statsError }] = await Promise.all([
+    supabase
+      .from('user_rating_summary')
+      .select('user_id, average_rating')
+      .eq('role', 'driver')
+      .in('user_id', ids),
+    supabase
+      .from('driver_offer_stats')
+      .select('driver_id, acceptance_rate')
+      .in('driver_id', ids),
+  ]);
+
+  if (ratingsError) throw ratingsError;
+  if (statsError) throw statsError;
+
+  const ratingOf = new Map((ratings ?? []).map((r) => [r.user_id, Number(r.average_rating)]));
+  const acceptanceOf = new Map(
+    (stats ?? []).map((s) => [s.driver_id, s.acceptance_rate == null ? null : Number(s.acceptance_rate)])
+  );
+
+  return free.map((d): DispatchCandidate => ({
+    driver_id: d.user_id,
+    latitude: d.current_latitude,
+    longitude: d.current_longitude,
+    location_updated_at: d.location_updated_at,
+    rating: ratingOf.get(d.user_id) ?? null,
+    acceptance_rate: acceptanceOf.get(d.user_id) ?? null,
+  }));
+};
+
+const expireOpenOffers = async (supabase: SupabaseClient, rideId: string) => {
+  const { error } = await supabase
+    .from('ride_offers')
+    .update({ status: 'expired' })
+    .eq('ride_id', rideId)
+    .eq('status', 'offered');
+
+  if (error) throw error;
+};
+
+// Runs one dispatch step for a pending ride that is not yet on the open board.
+// Ride updates are conditional on the wave we planned from, so concurrent
+// dispatchers cannot send the same wave twice.
+export const dispatchRide = async (
+  supabase: SupabaseClient,
+  ride: DispatchableRide,
+  now = new Date(),
+): Promise<DispatchPlan> => {
+  const [candidates, { data: offers, error: offersError }] = await Promise.all([
+    loadCandidates(supabase, ride),
+    supabase.from('ride_offers').select('driver_id, status, expires_at').eq('ride_id', ride.id),
+  ]);
+
+  if (offersError) throw offersError;
+
+  const plan = planDispatch(
+    {
+      pickup: { latitude: ride.from_latitude ?? undefined, longitude: ride.from_longitude ?? undefined },
+      wavesSent: ride.dispatch_wave,
+      lastWaveAt: ride.dispatch_wave_at,
+      offeredDriverIds: (offers ?? []).map((o) => o.driver_id),
+      liveOfferCount: (offers ?? []).filter((o) =>
+        o.status === 'offered' && o.expires_at && new Date(o.expires_at) > now
+      ).length,
+    },
+    candidates,
+    now,
+  );
+
+  if (plan.action === 'wait') {
+    return plan;
+  }
+
+  if (plan.action === 'open_board') {
+    const { error } = await supabase
+      .from('rides')
+      .update({ opened_to_board_at: now.toISOString() })
+      .eq('id', ride.id)
+      .eq('status', 'pending')
+      .is('opened_to_board_at', null);
+
+    if (error) throw error;
+    await expireOpenOffers(supabase, ride.id);
+    return plan;
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('rides')
+    .update({ dispatch_wave: plan.wave, dispatch_wave_at: now.toISOString() })
+    .eq('id', ride.id)
+    .eq('status', 'pending')
+    .eq('dispatch_wave', ride.dispatch_wave)
+    .is('opened_to_board_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) {
+    return { action: 'wait', until: now.toISOString() };
+  }
+
+  await expireOpenOffers(supabase, ride.id);
+
+  const { error: insertError } = await supabase
+    .from('ride_offers')
+    .insert(plan.drivers.map((driver) => ({
+      ride_id: ride.id,
+      driver_id: driver.driver_id,
+      wave: plan.wave,
+      distance_km: driver.distance_km,
+      expires_at: plan.expiresAt,
+    })));
+
+  if (insertError) throw insertError;
+  return plan;
+};
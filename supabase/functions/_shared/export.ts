@@ -0,0 +1,80 @@
+// Ride export formats and columns shared by export-rides and the export dialog.
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+// Longest date range a single export may cover
+export const MAX_EXPORT_DAYS = 366;
+
+// Exported columns, in CSV order. Names come from the joined profiles.
+export const EXPORT_COLUMNS = [
+  'id',
+  'status',
+  'vehicle_type',
+  'customer_name',
+  'driver_name',
+  'from_location',
+  'from_latitude',
+  'from_longitude',
+  'to_location',
+  'to_latitude',
+  'to_longitude',
+  'pickup_time',
+  'distance_km',
+  'min_price',
+  'max_price',
+  'driver_price',
+  'estimated_fare',
+  'final_fare',
+  'cancellation_reason',
+  'cancellation_fee',
+  'created_at',
+  'accepted_at',
+  'started_at',
+  'completed_at',
+  'cancelled_at',
+  'expired_at',
+] as const;
+
+export type ExportRow = Record<typeof EXPORT_COLUMNS[number], string | number | null>;
+
+export const validateExportRequest = (format: unknown, from: unknown, to: unknown) => {
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new Error('Export format must be csv or json');
+  }
+  const fromTime = typeof from === 'string' ? Date.parse(from) : NaN;
+  const toTime = typeof to === 'string' ? Date.parse(to) : NaN;
+  if (Number.isNaN(fromTime) || Number.isNaN(toTime)) {
+    throw new Error('Please choose a valid date range');
+  }
+  if (toTime <= fromTime) {
+    throw new Error('The end of the range must be after its start');
+  }
+  if (toTime - fromTime > MAX_EXPORT_DAYS * 24 * 60 * 60 * 1000) {
+    throw new Error(`Exports are limited to ${MAX_EXPORT_DAYS} days`);
+  }
+};
+
+// Quotes a value when it contains a delimiter, quote or line break (RFC 4180)
+const csvValue = (value: string | number | null) => {
+  if (value == null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvHeader = () => `${EXPORT_COLUMNS.join(',')}\r\n`;
+
+export const csvLine = (row: ExportRow) => `${EXPORT_COLUMNS.map((column) => csvValue(row[column])).join(',')}\r\n`;
+
+// Calendar date of an instant in the exporter's timezone
+const localDate = (time: number, utcOffsetMinutes: number) =>
+  new Date(time + utcOffsetMinutes * 60_000).toISOString().slice(0, 10);
+
+// Named after the local days covered; `to` is exclusive, so the name ends the day before
+export const exportFilename = (format: ExportFormat, from: string, to: string, utcOffsetMinutes = 0) =>
+  `rides-${localDate(Date.parse(from), utcOffsetMinutes)}-to-${localDate(Date.parse(to) - 1, utcOffsetMinutes)}.${format}`;
+
+// UTC offsets run from -12:00 to +14:00; anything else is treated as UTC
+export const exportUtcOffset = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= -12 * 60 && value <= 14 * 60 ? value : 0;
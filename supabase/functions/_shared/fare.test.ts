@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFare, FareTariff, findTariff, findTimeMultiplier, localHour } from './fare.ts';
+
+// The seeded car tariff, priced in IST (UTC+5:30)
+const car: FareTariff = {
+  vehicle_type: 'car',
+  base_fare: 80,
+  included_km: 2,
+  per_km_rate: 16,
+  free_waiting_minutes: 5,
+  waiting_per_minute: 2,
+  minimum_fare: 100,
+  time_multipliers: [
+    { label: 'Night charge', start_hour: 22, end_hour: 6, multiplier: 1.25 },
+    { label: 'Morning peak', start_hour: 8, end_hour: 10, multiplier: 1.2 },
+    { label: 'Evening peak', start_hour: 17, end_hour: 20, multiplier: 1.2 },
+  ],
+  utc_offset_minutes: 330,
+};
+
+// UTC instant for a wall-clock time in IST on 1 Jan 2025
+const ist = (hours: number, minutes = 0) =>
+  new Date(Date.UTC(2025, 0, 1, hours, minutes) - 330 * 60_000).toISOString();
+
+describe('localHour', () => {
+  it('shifts the pickup time into the tariff timezone', () => {
+    expect(localHour('2025-01-01T20:30:00Z', 330)).toBe(2);
+    expect(localHour('2025-01-01T02:00:00Z', -300)).toBe(21);
+    expect(localHour(new Date('2025-01-01T12:00:00Z'), 0)).toBe(12);
+  });
+
+  it('rejects an invalid pickup time', () => {
+    expect(() => localHour('not a date', 330)).toThrow('Invalid pickup time');
+  });
+});
+
+describe('findTimeMultiplier', () => {
+  it('applies no band outside the configured windows', () => {
+    expect(findTimeMultiplier(car, ist(12))).toBeNull();
+    expect(findTimeMultiplier(car, ist(21, 59))).toBeNull();
+  });
+
+  it('treats band starts as inclusive and ends as exclusive', () => {
+    expect(findTimeMultiplier(car, ist(8))?.label).toBe('Morning peak');
+    expect(findTimeMultiplier(car, ist(9, 59))?.label).toBe('Morning peak');
+    expect(findTimeMultiplier(car, ist(10))).toBeNull();
+    expect(findTimeMultiplier(car, ist(17))?.label).toBe('Evening peak');
+    expect(findTimeMultiplier(car, ist(20))).toBeNull();
+  });
+
+  it('wraps night bands across midnight', () => {
+    expect(findTimeMultiplier(car, ist(22))?.label).toBe('Night charge');
+    expect(findTimeMultiplier(car, ist(23, 30))?.label).toBe('Night charge');
+    expect(findTimeMultiplier(car, ist(0))?.label).toBe('Night charge');
+    expect(findTimeMultiplier(car, ist(5, 59))?.label).toBe('Night charge');
+    expect(findTimeMultiplier(car, ist(6))).toBeNull();
+  });
+
+  it('uses the highest multiplier when bands overlap', () => {
+    const overlapping: FareTariff = {
+      ...car,
+      time_multipliers: [
+        { label: 'Late evening', start_hour: 18, end_hour: 23, multiplier: 1.1 },
+        { label: 'Night charge', start_hour: 22, end_hour: 6, multiplier: 1.5 },
+      ],
+    };
+    expect(findTimeMultiplier(overlapping, ist(22, 30))?.label).toBe('Night charge');
+    expect(findTimeMultiplier(overlapping, ist(19))?.label).toBe('Late evening');
+  });
+
+  it('ignores bands that would discount the fare', () => {
+    const discount: FareTariff = {
+      ...car,
+      time_multipliers: [{ label: 'Off peak', start_hour: 0, end_hour: 24, multiplier: 0.9 }],
+    };
+    expect(findTimeMultiplier(discount, ist(12))).toBeNull();
+  });
+});
+
+describe('findTariff', () => {
+  it('returns the tariff for the vehicle type', () => {
+    const bike: FareTariff = { ...car, vehicle_type: 'bike', base_fare: 30 };
+    expect(findTariff([car, bike], 'bike')).toBe(bike);
+  });
+
+  it('throws when the vehicle type has no tariff', () => {
+    expect(() => findTariff([car], 'auto')).toThrow('No fare tariff configured for auto');
+  });
+});
+
+describe('calculateFare', () => {
+  it('charges base fare plus distance beyond the included km', () => {
+    const fare = calculateFare({ distanceKm: 10, pickupTime: ist(12) }, car);
+    expect(fare.line_items.map((item) => [item.code, item.amount])).toEqual([
+      ['base', 80],
+      ['distance', 128],
+    ]);
+    expect(fare.total).toBe(208);
+    expect(fare.currency).toBe('INR');
+  });
+
+  it('adds the time-of-day surcharge on the ride subtotal', () => {
+    const fare = calculateFare({ distanceKm: 10, pickupTime: ist(23) }, car);
+    expect(fare.line_items.find((item) => item.code === 'time_of_day')?.amount).toBe(52);
+    expect(fare.total).toBe(260);
+  });
+
+  it('applies the night band after midnight', () => {
+    expect(calculateFare({ distanceKm: 10, pickupTime: ist(2) }, car).total).toBe(260);
+    expect(calculateFare({ distanceKm: 10, pickupTime: ist(6) }, car).total).toBe(208);
+  });
+
+  it('charges waiting beyond the free minutes without multiplying it', () => {
+    const fare = calculateFare({ distanceKm: 10, pickupTime: ist(23), waitingMinutes: 12 }, car);
+    expect(fare.line_items.find((item) => item.code === 'waiting')?.amount).toBe(14);
+    expect(fare.total).toBe(274);
+  });
+
+  it('tops short rides up to the minimum fare', () => {
+    const fare = calculateFare({ distanceKm: 1, pickupTime: ist(12) }, car);
+    expect(fare.line_items.find((item) => item.code === 'minimum_fare')?.amount).toBe(20);
+    expect(fare.total).toBe(100);
+  });
+
+  it('does not add a minimum fare adjustment once the surcharge clears it', () => {
+    const fare = calculateFare({ distanceKm: 3, pickupTime: ist(12) }, car);
+    expect(fare.total).toBe(100);
+    const night = calculateFare({ distanceKm: 3, pickupTime: ist(23) }, car);
+    expect(night.line_items.some((item) => item.code === 'minimum_fare')).toBe(false);
+    expect(night.total).toBe(120);
+  });
+
+  it('is deterministic for the same input', () => {
+    const input = { distanceKm: 7.35, pickupTime: ist(18, 15), waitingMinutes: 8 };
+    expect(calculateFare(input, car)).toEqual(calculateFare(input, car));
+  });
+
+  it('rejects negative distances and waiting times', () => {
+    expect(() => calculateFare({ distanceKm: -1, pickupTime: ist(12) }, car)).toThrow('non-negative');
+    expect(() => calculateFare({ distanceKm: 1, pickupTime: ist(12), waitingMinutes: -5 }, car)).toThrow('non-negative');
+  });
+});
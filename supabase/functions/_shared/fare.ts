@@ -0,0 +1,148 @@
+// Fare engine shared by the edge functions and the web client.
+// Keep this module free of runtime-specific imports so both Deno and Vite can load it.
+
+export type VehicleType = 'auto' | 'car' | 'bike';
+
+export interface TimeMultiplier {
+  label: string;
+  start_hour: number;
+  end_hour: number;
+  multiplier: number;
+}
+
+export interface FareTariff {
+  vehicle_type: VehicleType;
+  base_fare: number;
+  included_km: number;
+  per_km_rate: number;
+  free_waiting_minutes: number;
+  waiting_per_minute: number;
+  minimum_fare: number;
+  time_multipliers: TimeMultiplier[];
+  utc_offset_minutes: number;
+  average_speed_kmph?: number;
+}
+
+export interface FareInput {
+  distanceKm: number;
+  pickupTime: string | Date;
+  waitingMinutes?: number;
+}
+
+export type FareLineItemCode = 'base' | 'distance' | 'waiting' | 'time_of_day' | 'minimum_fare';
+
+export interface FareLineItem {
+  code: FareLineItemCode;
+  label: string;
+  amount: number;
+}
+
+export interface FareBreakdown {
+  vehicle_type: VehicleType;
+  currency: 'INR';
+  distance_km: number;
+  waiting_minutes: number;
+  line_items: FareLineItem[];
+  total: number;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Hour of day (0-23) at the tariff's local time, so night and peak bands
+// do not depend on the timezone of the machine doing the pricing.
+export const localHour = (pickupTime: string | Date, utcOffsetMinutes: number) => {
+  const time = new Date(pickupTime).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error('Invalid pickup time');
+  }
+  const local = new Date(time + utcOffsetMinutes * 60_000);
+  return local.getUTCHours();
+};
+
+const inBand = (hour: number, { start_hour, end_hour }: TimeMultiplier) =>
+  start_hour <= end_hour
+    ? hour >= start_hour && hour < end_hour
+    : hour >= start_hour || hour < end_hour;
+
+// Overlapping bands never stack: the highest applicable multiplier wins.
+export const findTimeMultiplier = (tariff: FareTariff, pickupTime: string | Date) => {
+  const hour = localHour(pickupTime, tariff.utc_offset_minutes);
+  return (tariff.time_multipliers || [])
+    .filter((band) => inBand(hour, band) && band.multiplier > 1)
+    .reduce<TimeMultiplier | null>(
+      (best, band) => (!best || band.multiplier > best.multiplier ? band : best),
+      null
+    );
+};
+
+export const findTariff = (tariffs: FareTariff[], vehicleType: VehicleType) => {
+  const tariff = tariffs.find((t) => t.vehicle_type === vehicleType);
+  if (!tariff) {
+    throw new Error(`No fare tariff configured for ${vehicleType}`);
+  }
+  return tariff;
+};
+
+export const calculateFare = (
+  { distanceKm, pickupTime, waitingMinutes = 0 }: FareInput,
+  tariff: FareTariff
+): FareBreakdown => {
+  if (!Number.isFinite(distanceKm) || distanceKm < 0) {
+    throw new Error('Distance must be a non-negative number');
+  }
+  if (!Number.isFinite(waitingMinutes) || waitingMinutes < 0) {
+    throw new Error('Waiting time must be a non-negative number');
+  }
+
+  const lineItems: FareLineItem[] = [
+    { code: 'base', label: 'Base fare', amount: roundMoney(Number(tariff.base_fare)) },
+  ];
+
+  const billableKm = Math.max(0, distanceKm - Number(tariff.included_km));
+  if (billableKm > 0) {
+    lineItems.push({
+      code: 'distance',
+      label: `Distance (${roundMoney(billableKm)} km × ₹${tariff.per_km_rate})`,
+      amount: roundMoney(billableKm * Number(tariff.per_km_rate)),
+    });
+  }
+
+  const band = findTimeMultiplier(tariff, pickupTime);
+  if (band) {
+    const rideSubtotal = lineItems.reduce((sum, item) => sum + item.amount, 0);
+    lineItems.push({
+      code: 'time_of_day',
+      label: `${band.label} (×${band.multiplier})`,
+      amount: roundMoney(rideSubtotal * (band.multiplier - 1)),
+    });
+  }
+
+  // Waiting is charged after the time-of-day surcharge so it is never multiplied.
+  const billableWaiting = Math.max(0, waitingMinutes - Number(tariff.free_waiting_minutes));
+  if (billableWaiting > 0) {
+    lineItems.push({
+      code: 'waiting',
+      label: `Waiting (${billableWaiting} min × ₹${tariff.waiting_per_minute})`,
+      amount: roundMoney(billableWaiting * Number(tariff.waiting_per_minute)),
+    });
+  }
+
+  const subtotal = roundMoney(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  const minimumFare = Number(tariff.minimum_fare);
+  if (subtotal < minimumFare) {
+    lineItems.push({
+      code: 'minimum_fare',
+      label: 'Minimum fare adjustment',
+      amount: roundMoney(minimumFare - subtotal),
+    });
+  }
+
+  return {
+    vehicle_type: tariff.vehicle_type,
+    currency: 'INR',
+    distance_km: roundMoney(distanceKm),
+    waiting_minutes: waitingMinutes,
+    line_items: lineItems,
+    total: roundMoney(Math.max(subtotal, minimumFare)),
+  };
+};
@@ -0,0 +1,32 @@
+// Geographic helpers shared by the edge functions and the web client.
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points, rounded to two decimals like rides.distance_km
+export const haversineKm = (from: Coordinates, to: Coordinates) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  const distance = 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  return Math.round(distance * 100) / 100;
+};
+
+export const isValidCoordinates = (point: Partial<Coordinates> | null | undefined): point is Coordinates =>
+  !!point &&
+  typeof point.latitude === 'number' &&
+  typeof point.longitude === 'number' &&
+  Math.abs(point.latitude) <= 90 &&
+  Math.abs(point.longitude) <= 180;
+
+// Trip duration in whole minutes at the given average speed
+export const estimateTravelMinutes = (distanceKm: number, averageSpeedKmph: number) =>
+  averageSpeedKmph > 0 ? Math.max(1, Math.round((distanceKm / averageSpeedKmph) * 60)) : null;
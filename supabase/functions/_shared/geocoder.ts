@@ -0,0 +1,99 @@
+// Pluggable address geocoding shared by the edge functions and the web client.
+// Keep this module free of runtime-specific imports so both Deno and Vite can load it.
+import type { Coordinates } from './geo.ts';
+
+export interface GeocodeResult extends Coordinates {
+  name: string;
+  address: string;
+  source: string;
+}
+
+export interface Geocoder {
+  geocode: (query: string) => Promise<GeocodeResult | null>;
+}
+
+export interface KnownLocation {
+  name: string;
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export const normalizeAddress = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// PostgREST `or` filter matching a free-text query against locations.name/address.
+// Characters with meaning in the filter grammar are stripped rather than escaped.
+export const locationSearchFilter = (query: string) => {
+  const term = query.replace(/[,()*%\\]/g, ' ').trim();
+  return `name.ilike.%${term}%,address.ilike.%${term}%`;
+};
+
+const pickBestMatch = (query: string, candidates: KnownLocation[]) => {
+  const normalized = normalizeAddress(query);
+  const usable = candidates.filter((c) => c.latitude != null && c.longitude != null);
+  return (
+    usable.find((c) => normalizeAddress(c.name) === normalized || normalizeAddress(c.address) === normalized) ??
+    usable.find((c) => normalized.includes(normalizeAddress(c.name))) ??
+    usable[0] ??
+    null
+  );
+};
+
+// Resolves against the seeded `locations` table; `lookup` runs the actual query
+export const createLocationsGeocoder = (
+  lookup: (query: string) => Promise<KnownLocation[]>
+): Geocoder => ({
+  geocode: async (query) => {
+    if (!normalizeAddress(query)) return null;
+    const match = pickBestMatch(query, await lookup(query));
+    if (!match) return null;
+    return {
+      name: match.name,
+      address: match.address,
+      latitude: Number(match.latitude),
+      longitude: Number(match.longitude),
+      source: 'locations',
+    };
+  },
+});
+
+// Neighbourhoods around the service area, used until a real geocoding provider is wired in
+export const STUB_GAZETTEER: (KnownLocation & { latitude: number; longitude: number })[] = [
+  { name: 'MG Road', address: 'MG Road, Bengaluru', latitude: 12.9756, longitude: 77.6067 },
+  { name: 'Indiranagar', address: 'Indiranagar, Bengaluru', latitude: 12.9784, longitude: 77.6408 },
+  { name: 'Koramangala', address: 'Koramangala, Bengaluru', latitude: 12.9352, longitude: 77.6146 },
+  { name: 'Jayanagar', address: 'Jayanagar, Bengaluru', latitude: 12.9308, longitude: 77.5838 },
+  { name: 'Whitefield', address: 'Whitefield, Bengaluru', latitude: 12.9698, longitude: 77.7500 },
+  { name: 'Electronic City', address: 'Electronic City, Bengaluru', latitude: 12.8452, longitude: 77.6602 },
+  { name: 'Hebbal', address: 'Hebbal, Bengaluru', latitude: 13.0358, longitude: 77.5970 },
+  { name: 'Marathahalli', address: 'Marathahalli, Bengaluru', latitude: 12.9569, longitude: 77.7011 },
+];
+
+// Local stand-in for an external provider: matches known neighbourhood names within the query
+export const createStubGeocoder = (gazetteer = STUB_GAZETTEER): Geocoder => ({
+  geocode: async (query) => {
+    const normalized = normalizeAddress(query);
+    if (!normalized) return null;
+    const match = gazetteer.find((place) => normalized.includes(normalizeAddress(place.name)));
+    if (!match) return null;
+    return {
+      name: match.name,
+      address: match.address,
+      latitude: match.latitude,
+      longitude: match.longitude,
+      source: 'stub',
+    };
+  },
+});
+
+// Tries each geocoder in order and returns the first resolution
+export const createChainedGeocoder = (...geocoders: Geocoder[]): Geocoder => ({
+  geocode: async (query) => {
+    for (const geocoder of geocoders) {
+      const result = await geocoder.geocode(query);
+      if (result) return result;
+    }
+    return null;
+  },
+});
@@ -0,0 +1,18 @@
+// Errors that carry an HTTP status back to the client.
+
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// Anything that is not an HttpError keeps the historical 400 response
+export const errorStatus = (error: unknown) => (error instanceof HttpError ? error.status : 400);
+
+// Message for a caught value; Supabase errors are plain objects with a message
+export const errorMessage = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'message' in error ? String(error.message) : String(error);
@@ -0,0 +1,24 @@
+// Server-side geocoder: the seeded locations table first, then the local stub.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  createChainedGeocoder,
+  createLocationsGeocoder,
+  createStubGeocoder,
+  KnownLocation,
+  locationSearchFilter,
+} from './geocoder.ts';
+
+export const createServerGeocoder = (supabase: SupabaseClient) =>
+  createChainedGeocoder(
+    createLocationsGeocoder(async (query) => {
+      const { data, error } = await supabase
+        .from('locations')
+        .select('name, address, latitude, longitude')
+        .or(locationSearchFilter(query))
+        .limit(5);
+
+      if (error) throw error;
+      return (data ?? []) as KnownLocation[];
+    }),
+    createStubGeocoder()
+  );
@@ -0,0 +1,14 @@
+// Decline reason codes shared by decline-ride and the driver dashboard.
+
+export const DECLINE_REASONS: { code: string; label: string }[] = [
+  { code: 'pickup_too_far', label: 'Pickup is too far' },
+  { code: 'fare_too_low', label: 'Fare is too low' },
+  { code: 'wrong_direction', label: 'Not heading that way' },
+  { code: 'on_break', label: 'Taking a break' },
+  { code: 'other', label: 'Other' },
+];
+
+export const isValidDeclineReason = (code: string) => DECLINE_REASONS.some((reason) => reason.code === code);
+
+export const declineReasonLabel = (code: string | null | undefined) =>
+  DECLINE_REASONS.find((reason) => reason.code === code)?.label ?? code ?? '';
@@ -0,0 +1,45 @@
+// Rating tags shared by rate-ride and the rating dialog, keyed by who is being rated.
+
+export type RatedParty = 'customer' | 'driver';
+
+export const RATING_TAGS: Record<RatedParty, { code: string; label: string }[]> = {
+  driver: [
+    { code: 'safe_driving', label: 'Safe driving' },
+    { code: 'on_time', label: 'On time' },
+    { code: 'clean_vehicle', label: 'Clean vehicle' },
+    { code: 'friendly', label: 'Friendly' },
+    { code: 'knew_route', label: 'Knew the route' },
+    { code: 'late', label: 'Late' },
+    { code: 'unsafe_driving', label: 'Unsafe driving' },
+  ],
+  customer: [
+    { code: 'on_time', label: 'Ready on time' },
+    { code: 'polite', label: 'Polite' },
+    { code: 'clear_directions', label: 'Clear directions' },
+    { code: 'kept_waiting', label: 'Kept me waiting' },
+    { code: 'rude', label: 'Rude' },
+  ],
+};
+
+export const MAX_RATING_COMMENT_LENGTH = 500;
+
+// Either party can rate a ride for this long after it is completed
+export const RATING_WINDOW_HOURS = 24;
+
+export const isWithinRatingWindow = (completedAt: string | null, now = new Date()) =>
+  !!completedAt && now.getTime() - new Date(completedAt).getTime() <= RATING_WINDOW_HOURS * 3_600_000;
+
+export const validateRating = (ratee: RatedParty, rating: unknown, tags: unknown, comment: unknown) => {
+  if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new Error('Please choose a rating from 1 to 5 stars');
+  }
+  if (!Array.isArray(tags) || tags.some((tag) => !RATING_TAGS[ratee].some((known) => known.code === tag))) {
+    throw new Error('Unknown rating tag');
+  }
+  if (comment != null && (typeof comment !== 'string' || comment.length > MAX_RATING_COMMENT_LENGTH)) {
+    throw new Error(`Comments are limited to ${MAX_RATING_COMMENT_LENGTH} characters`);
+  }
+};
+
+export const ratingTagLabel = (ratee: RatedParty, code: string) =>
+  RATING_TAGS[ratee].find((tag) => tag.code === code)?.label ?? code;
@@ -0,0 +1,11 @@
+// Ride statuses as seen by the edge functions. The full transition table lives
+// in the database trigger `enforce_ride_status_transition`; only the subset a
+// driver may request is repeated here.
+
+export type RideStatus = 'scheduled' | 'pending' | 'accepted' | 'in_progress' | 'completed' | 'cancelled' | 'expired';
+
+// Transitions the assigned driver may request through update-ride-status
+export const DRIVER_STATUS_TRANSITIONS: Partial<Record<RideStatus, RideStatus>> = {
+  accepted: 'in_progress',
+  in_progress: 'completed',
+};
@@ -0,0 +1,94 @@
+// Request shapes and validation shared by the ride edge functions.
+import type { VehicleType } from './fare.ts';
+import { Coordinates, isValidCoordinates } from './geo.ts';
+import type { Geocoder } from './geocoder.ts';
+
+export const VEHICLE_TYPES: VehicleType[] = ['car', 'auto', 'bike'];
+
+export interface CreateRideRequest {
+  from_location: string;
+  to_location: string;
+  from_latitude?: number;
+  from_longitude?: number;
+  to_latitude?: number;
+  to_longitude?: number;
+  pickup_time: string;
+  vehicle_type: VehicleType;
+  notes?: string;
+  min_price: number;
+  max_price: number;
+  driver_price: number;
+}
+
+export const validatePriceRange = ({ min_price, max_price, driver_price }: CreateRideRequest) => {
+  const prices = [min_price, max_price, driver_price];
+  if (prices.some((price) => typeof price !== 'number' || !Number.isFinite(price))) {
+    throw new Error('Minimum, maximum and driver price are required');
+  }
+  if (min_price < 0) {
+    throw new Error('Minimum price cannot be negative');
+  }
+  if (min_price >= max_price) {
+    throw new Error('Maximum price must be greater than minimum price');
+  }
+  if (driver_price < min_price || driver_price > max_price) {
+    throw new Error('Driver price must be between minimum and maximum price');
+  }
+};
+
+export const isWithinPriceRange = (
+  amount: number,
+  { min_price, max_price }: { min_price: number | null; max_price: number | null }
+) => min_price != null && max_price != null && amount >= min_price && amount <= max_price;
+
+// A price range around a quoted fare, for rides that were booked before
+// prices were required and are now being re-booked
+export const priceRangeAround = (fare: number) => ({
+  min_price: Math.floor(fare * 0.8),
+  max_price: Math.ceil(fare * 1.2),
+  driver_price: Math.round(fare),
+});
+
+// Counter-offers must stay inside the range the customer agreed to pay
+export const validateBidAmount = (
+  amount: unknown,
+  ride: { min_price: number | null; max_price: number | null }
+) => {
+  if (ride.min_price == null || ride.max_price == null) {
+    throw new Error('This ride does not accept counter-offers');
+  }
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || !isWithinPriceRange(amount, ride)) {
+    throw new Error(`Your offer must be between ₹${ride.min_price} and ₹${ride.max_price}`);
+  }
+};
+
+const pointOrNull = (latitude?: number, longitude?: number) => {
+  const point = { latitude, longitude };
+  return isValidCoordinates(point) ? point : null;
+};
+
+// Uses the client's coordinates where present and geocodes the address otherwise.
+// Returns null when either end cannot be resolved.
+const resolveRideCoordinates = async (
+  request: CreateRideRequest,
+  geocoder: Geocoder
+): Promise<{ from: Coordinates; to: Coordinates } | null> => {
+  const [from, to] = await Promise.all([
+    pointOrNull(request.from_latitude, request.from_longitude) ?? geocoder.geocode(request.from_location),
+    pointOrNull(request.to_latitude, request.to_longitude) ?? geocoder.geocode(request.to_location),
+  ]);
+  if (!from || !to) return null;
+  return {
+    from: { latitude: from.latitude, longitude: from.longitude },
+    to: { latitude: to.latitude, longitude: to.longitude },
+  };
+};
+
+// Quotes and bookings both need both ends resolved; the same message keeps them consistent
+export const requireRideCoordinates = async (request: CreateRideRequest, geocoder: Geocoder) => {
+  const coordinates = await resolveRideCoordinates(request, geocoder);
+  if (!coordinates) {
+    throw new Error('Could not find coordinates for the pickup or drop-off location');
+  }
+  return coordinates;
+};
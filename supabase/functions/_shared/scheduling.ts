@@ -0,0 +1,49 @@
+// Scheduled ride timing shared by create-ride, release-scheduled-rides and the
+// booking form. The lead times live in app_settings; these are the fallbacks.
+
+export interface SchedulingSettings {
+  // Rides are released to drivers this many minutes before pickup
+  releaseLeadMinutes: number;
+  // Both parties are reminded this many minutes before pickup
+  reminderLeadMinutes: number;
+}
+
+export const DEFAULT_SCHEDULING_SETTINGS: SchedulingSettings = {
+  releaseLeadMinutes: 30,
+  reminderLeadMinutes: 15,
+};
+
+export const SCHEDULING_SETTING_KEYS = {
+  releaseLeadMinutes: 'scheduled_release_lead_minutes',
+  reminderLeadMinutes: 'scheduled_reminder_lead_minutes',
+} as const;
+
+// Builds settings from app_settings rows, ignoring missing or malformed values
+export const schedulingSettingsFrom = (rows: { key: string; value: unknown }[]): SchedulingSettings => {
+  const settings = { ...DEFAULT_SCHEDULING_SETTINGS };
+  for (const [field, key] of Object.entries(SCHEDULING_SETTING_KEYS) as [keyof SchedulingSettings, string][]) {
+    const value = Number(rows.find((row) => row.key === key)?.value);
+    if (Number.isFinite(value) && value >= 0) settings[field] = value;
+  }
+  return settings;
+};
+
+const minutesFrom = (now: Date, minutes: number) => new Date(now.getTime() + minutes * 60_000);
+
+// A pickup beyond the release lead time is held as a scheduled ride
+export const isScheduledPickup = (pickupTime: string | Date, now: Date, settings: SchedulingSettings) =>
+  new Date(pickupTime) > minutesFrom(now, settings.releaseLeadMinutes);
+
+// Scheduled rides picking up before this instant are due for release
+export const releaseCutoff = (now: Date, settings: SchedulingSettings) =>
+  minutesFrom(now, settings.releaseLeadMinutes).toISOString();
+
+// Rides picking up before this instant are due their reminder
+export const reminderCutoff = (now: Date, settings: SchedulingSettings) =>
+  minutesFrom(now, settings.reminderLeadMinutes).toISOString();
+
+// "2025-10-09 08:30" at the tariff's local time, for notification messages
+export const formatPickupTime = (pickupTime: string | Date, utcOffsetMinutes: number) => {
+  const local = new Date(new Date(pickupTime).getTime() + utcOffsetMinutes * 60_000).toISOString();
+  return `${local.slice(0, 10)} ${local.slice(11, 16)}`;
+};
@@ -0,0 +1,26 @@
+// Loads operational settings from app_settings for the edge functions.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SCHEDULING_SETTING_KEYS, schedulingSettingsFrom } from './scheduling.ts';
+
+export const loadSchedulingSettings = async (supabase: SupabaseClient) => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('key, value')
+    .in('key', Object.values(SCHEDULING_SETTING_KEYS));
+
+  if (error) throw error;
+  return schedulingSettingsFrom(data ?? []);
+};
+
+// A single numeric setting, falling back when it is missing or malformed
+export const loadNumberSetting = async (supabase: SupabaseClient, key: string, fallback: number) => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) throw error;
+  const value = Number(data?.value);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
@@ -0,0 +1,21 @@
+// Keeps suspended users from booking or taking on rides. The auth ban stops
+// new sign-ins; this covers sessions that were already open when it landed.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { HttpError } from './http.ts';
+
+export const isSuspended = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('suspended_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data?.suspended_at;
+};
+
+export const assertNotSuspended = async (supabase: SupabaseClient, userId: string) => {
+  if (await isSuspended(supabase, userId)) {
+    throw new HttpError(403, 'Your account is suspended. Please contact support.');
+  }
+};
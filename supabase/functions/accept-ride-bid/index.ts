@@ -0,0 +1,161 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+import { isSuspended } from '../_shared/suspension.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface AcceptRideBidRequest {
+  bid_id: string;
+}
+
+// The customer picks a driver's counter-offer: that driver is assigned at the
+// bid amount and every other open bid on the ride is rejected.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get the authenticated user
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { bid_id }: AcceptRideBidRequest = await req.json();
+
+    const { data: bid, error: bidError } = await supabase
+      .from('ride_bids')
+      .select('*')
+      .eq('id', bid_id)
+      .maybeSingle();
+
+    if (bidError) {
+      throw bidError;
+    }
+
+    if (!bid || bid.customer_id !== user.id) {
+      throw new HttpError(404, 'Offer not found');
+    }
+
+    if (bid.status !== 'open') {
+      throw new HttpError(409, 'This offer is no longer available');
+    }
+
+    // A driver who has since taken another ride, or been suspended, cannot be
+    // assigned this one
+    const [{ data: busyRide }, driverSuspended] = await Promise.all([
+      supabase
+        .from('rides')
+        .select('id')
+        .eq('driver_id', bid.driver_id)
+        .in('status', ['accepted', 'in_progress'])
+        .limit(1)
+        .maybeSingle(),
+      isSuspended(supabase, bid.driver_id),
+    ]);
+
+    if (busyRide || driverSuspended) {
+      await supabase.from('ride_bids').update({ status: 'rejected' }).eq('id', bid_id);
+      throw new HttpError(409, 'This driver is no longer available');
+    }
+
+    // Assign the driver in a single conditional update, exactly as accept-ride
+    // does, so a driver accepting directly and the customer picking a bid
+    // cannot both win.
+    const { data: ride, error: claimError } = await supabase
+      .from('rides')
+      .update({
+        driver_id: bid.driver_id,
+        status: 'accepted',
+        driver_price: bid.amount,
+      })
+      .eq('id', bid.ride_id)
+      .eq('status', 'pending')
+      .is('driver_id', null)
+      .select()
+      .maybeSingle();
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    if (!ride) {
+      throw new HttpError(409, 'This ride has already been accepted by a driver');
+    }
+
+    await supabase
+      .from('ride_bids')
+      .update({ status: 'accepted' })
+      .eq('id', bid_id);
+
+    const { data: rejectedBids } = await supabase
+      .from('ride_bids')
+      .update({ status: 'rejected' })
+      .eq('ride_id', bid.ride_id)
+      .eq('status', 'open')
+      .select('driver_id');
+
+    // The winner's own offer, if they held one, is accepted; the rest lapse
+    await supabase
+      .from('ride_offers')
+      .update({ status: 'accepted', responded_at: new Date().toISOString() })
+      .eq('ride_id', bid.ride_id)
+      .eq('driver_id', bid.driver_id)
+      .eq('status', 'offered');
+
+    await supabase
+      .from('ride_offers')
+      .update({ status: 'expired' })
+      .eq('ride_id', bid.ride_id)
+      .neq('driver_id', bid.driver_id)
+      .eq('status', 'offered');
+
+    await supabase
+      .from('ride_notifications')
+      .insert([
+        {
+          ride_id: bid.ride_id,
+          user_id: bid.driver_id,
+          message: `The customer accepted your offer of ₹${bid.amount} for the ride from ${ride.from_location} to ${ride.to_location}.`,
+        },
+        ...(rejectedBids ?? []).map((rejected) => ({
+          ride_id: bid.ride_id,
+          user_id: rejected.driver_id,
+          message: 'The customer chose another offer for a ride you bid on.',
+        })),
+      ]);
+
+    return new Response(JSON.stringify({ success: true, ride }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in accept-ride-bid function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
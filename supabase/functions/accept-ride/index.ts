@@ -1,6 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+import { assertNotSuspended } from '../_shared/suspension.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -36,6 +38,8 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
+    await assertNotSuspended(supabase, user.id);
+
     const { ride_id }: AcceptRideRequest = await req.json();
 
     // Get driver profile
@@ -60,51 +64,83 @@ serve(async (req) => {
       throw new Error('Driver vehicle profile not found');
     }
 
-    // Get the ride details
-    const { data: ride, error: rideError } = await supabase
+    // While a ride is being offered in waves only the drivers holding a live
+    // offer may take it; once it is on the open board anyone matching can.
+    const { data: pendingRide } = await supabase
       .from('rides')
-      .select(`
-        *,
-        profiles!rides_customer_id_fkey(full_name, phone)
-      `)
+      .select('id, status, vehicle_type, opened_to_board_at')
       .eq('id', ride_id)
-      .eq('status', 'pending')
-      .single();
+      .maybeSingle();
+
+    if (!pendingRide) {
+      throw new HttpError(404, 'Ride not found');
+    }
 
-    if (rideError || !ride) {
-      throw new Error('Ride not found or already accepted');
+    if (pendingRide.status === 'pending' && !pendingRide.opened_to_board_at) {
+      const { data: offer } = await supabase
+        .from('ride_offers')
+        .select('id')
+        .eq('ride_id', ride_id)
+        .eq('driver_id', user.id)
+        .eq('status', 'offered')
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      // 410 tells the app our offer lapsed, as opposed to a refusal
+      if (!offer) {
+        throw new HttpError(410, 'This ride offer has expired');
+      }
+    } else if (pendingRide.status === 'pending') {
+      // The board is filtered the same way, but a direct call could skip it
+      if (driverVehicle.vehicle_type !== pendingRide.vehicle_type) {
+        throw new HttpError(403, `This ride is for a ${pendingRide.vehicle_type}, not your vehicle`);
+      }
+      if (!driverVehicle.is_available) {
+        throw new HttpError(403, 'Mark yourself available before accepting rides');
+      }
     }
 
-    // Update the ride with driver and status
-    const { error: updateError } = await supabase
+    // Claim the ride in a single conditional update so that concurrent
+    // accepts cannot both succeed: only a still-pending, unassigned row matches.
+    const { data: ride, error: claimError } = await supabase
       .from('rides')
       .update({
         driver_id: user.id,
         status: 'accepted',
       })
-      .eq('id', ride_id);
+      .eq('id', ride_id)
+      .eq('status', 'pending')
+      .is('driver_id', null)
+      .select()
+      .maybeSingle();
 
-    if (updateError) {
-      throw updateError;
+    if (claimError) {
+      throw claimError;
     }
 
-    // Get customer details for email
-    const { data: customer, error: customerError } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('user_id', ride.customer_id)
-      .single();
-
-    if (customerError) {
-      throw customerError;
+    if (!ride) {
+      throw new HttpError(409, 'This ride has already been accepted by another driver');
     }
 
-    // Get customer's auth details for email
-    const { data: customerAuth, error: customerAuthError } = await supabase.auth.admin.getUserById(ride.customer_id);
-    
-    if (customerAuthError || !customerAuth.user) {
-      throw new Error('Customer auth details not found');
-    }
+    // Close out the ride's offers: ours is accepted, any others lapse
+    await supabase
+      .from('ride_offers')
+      .update({ status: 'accepted', responded_at: new Date().toISOString() })
+      .eq('ride_id', ride_id)
+      .eq('driver_id', user.id);
+
+    await supabase
+      .from('ride_offers')
+      .update({ status: 'expired' })
+      .eq('ride_id', ride_id)
+      .eq('status', 'offered');
+
+    // Accepting at the customer's price settles any counter-offers
+    await supabase
+      .from('ride_bids')
+      .update({ status: 'rejected' })
+      .eq('ride_id', ride_id)
+      .eq('status', 'open');
 
     // Email notifications disabled
 
@@ -132,12 +168,12 @@ serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error in accept-ride function:', error);
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: errorMessage(error) }),
       {
-        status: 400,
+        status: errorStatus(error),
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
     );
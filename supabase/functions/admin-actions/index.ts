@@ -0,0 +1,331 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+import { AdminAction, isAdmin, isAdminAction } from '../_shared/admin.ts';
+import { isValidReason, reasonLabel } from '../_shared/cancellation.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Suspensions last until an admin reinstates the user
+const SUSPENSION_BAN_DURATION = '876000h';
+
+interface AdminActionRequest {
+  action: AdminAction;
+  ride_id?: string;
+  driver_id?: string;
+  user_id?: string;
+  reason_code?: string;
+  note?: string;
+}
+
+const loadRide = async (rideId: string | undefined) => {
+  const { data: ride, error } = await supabase
+    .from('rides')
+    .select('*')
+    .eq('id', rideId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!ride) {
+    throw new HttpError(404, 'Ride not found');
+  }
+
+  return ride;
+};
+
+// Conditional on the status we validated against, so a concurrent change loses cleanly
+const updateRide = async (ride: { id: string; status: string }, updateData: Record<string, unknown>) => {
+  const { data: updatedRide, error } = await supabase
+    .from('rides')
+    .update(updateData)
+    .eq('id', ride.id)
+    .eq('status', ride.status)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!updatedRide) {
+    throw new HttpError(409, 'The ride was updated by someone else. Please refresh and try again.');
+  }
+
+  return updatedRide;
+};
+
+// Offers and counter-offers are moot once support has settled the ride
+const closeOpenOffers = async (rideId: string) => {
+  await supabase
+    .from('ride_offers')
+    .update({ status: 'expired' })
+    .eq('ride_id', rideId)
+    .eq('status', 'offered');
+
+  await supabase
+    .from('ride_bids')
+    .update({ status: 'rejected' })
+    .eq('ride_id', rideId)
+    .eq('status', 'open');
+};
+
+const notify = async (rideId: string, userIds: (string | null)[], message: string) => {
+  const rows = userIds.filter((id): id is string => !!id).map((user_id) => ({ ride_id: rideId, user_id, message }));
+  if (rows.length > 0) {
+    await supabase.from('ride_notifications').insert(rows);
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get the authenticated user
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    if (!isAdmin(user)) {
+      throw new HttpError(403, 'Admin access required');
+    }
+
+    const { action, ride_id, driver_id, user_id, reason_code, note }: AdminActionRequest = await req.json();
+
+    if (!isAdminAction(action)) {
+      throw new Error('Unknown admin action');
+    }
+
+    let targetType: 'ride' | 'user';
+    let targetId: string;
+    let details: Record<string, unknown>;
+    let result: unknown;
+
+    if (action === 'reassign_ride') {
+      const ride = await loadRide(ride_id);
+
+      if (!['pending', 'accepted'].includes(ride.status)) {
+        throw new HttpError(409, `A ${ride.status.replace('_', ' ')} ride cannot be reassigned`);
+      }
+
+      if (!driver_id || driver_id === ride.driver_id) {
+        throw new Error('Please choose a different driver');
+      }
+
+      const { data: driver, error: driverError } = await supabase
+        .from('driver_profiles')
+        .select('vehicle_type, is_available, profiles!inner(full_name, suspended_at)')
+        .eq('user_id', driver_id)
+        .maybeSingle();
+
+      if (driverError) {
+        throw driverError;
+      }
+
+      if (!driver) {
+        throw new HttpError(404, 'Driver not found');
+      }
+
+      if (driver.vehicle_type !== ride.vehicle_type) {
+        throw new HttpError(409, `This ride needs a ${ride.vehicle_type} driver`);
+      }
+
+      if (driver.profiles.suspended_at) {
+        throw new HttpError(409, 'This driver is suspended');
+      }
+
+      if (!driver.is_available) {
+        throw new HttpError(409, 'This driver is not available right now');
+      }
+
+      const { count: activeRides, error: activeError } = await supabase
+        .from('rides')
+        .select('id', { count: 'exact', head: true })
+        .eq('driver_id', driver_id)
+        .in('status', ['accepted', 'in_progress']);
+
+      if (activeError) {
+        throw activeError;
+      }
+
+      if (activeRides) {
+        throw new HttpError(409, 'This driver is already on another ride');
+      }
+
+      result = await updateRide(ride, {
+        status: 'accepted',
+        driver_id,
+        accepted_at: new Date().toISOString(),
+      });
+      await closeOpenOffers(ride.id);
+
+      await notify(ride.id, [driver_id], `Support assigned you the ride from ${ride.from_location}.`);
+      await notify(ride.id, [ride.driver_id], `Support reassigned the ride from ${ride.from_location} to another driver.`);
+      await notify(ride.id, [ride.customer_id], `Support assigned ${driver.profiles.full_name || 'a new driver'} to your ride.`);
+
+      targetType = 'ride';
+      targetId = ride.id;
+      details = { from_driver_id: ride.driver_id, to_driver_id: driver_id, previous_status: ride.status, note: note || null };
+    } else if (action === 'cancel_ride') {
+      const ride = await loadRide(ride_id);
+
+      if (!['scheduled', 'pending', 'accepted'].includes(ride.status)) {
+        throw new HttpError(409, `A ${ride.status.replace('_', ' ')} ride can no longer be cancelled`);
+      }
+
+      if (!reason_code || !isValidReason('admin', reason_code)) {
+        throw new Error('Please choose a cancellation reason');
+      }
+
+      // Support cancellations never charge the customer a fee
+      result = await updateRide(ride, {
+        status: 'cancelled',
+        cancelled_by: user.id,
+        cancellation_reason: reason_code,
+        cancellation_fee: 0,
+      });
+      await closeOpenOffers(ride.id);
+
+      const { error: logError } = await supabase
+        .from('ride_cancellations')
+        .insert({
+          ride_id: ride.id,
+          cancelled_by: user.id,
+          cancelled_by_role: 'admin',
+          reason_code,
+          note: note || null,
+          fee: 0,
+        });
+
+      if (logError) {
+        console.error('Error recording cancellation:', logError);
+      }
+
+      await notify(
+        ride.id,
+        [ride.customer_id, ride.driver_id],
+        `The ride from ${ride.from_location} was cancelled (${reasonLabel(reason_code)}).`
+      );
+
+      targetType = 'ride';
+      targetId = ride.id;
+      details = { previous_status: ride.status, reason_code, note: note || null };
+    } else if (action === 'suspend_user' || action === 'reinstate_user') {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('user_id, user_type, suspended_at')
+        .eq('user_id', user_id)
+        .maybeSingle();
+
+      if (profileError) {
+        throw profileError;
+      }
+
+      if (!profile) {
+        throw new HttpError(404, 'User not found');
+      }
+
+      if (profile.user_id === user.id || profile.user_type === 'admin') {
+        throw new HttpError(403, 'Admins cannot be suspended from the console');
+      }
+
+      const suspend = action === 'suspend_user';
+
+      if (suspend === !!profile.suspended_at) {
+        throw new HttpError(409, suspend ? 'This user is already suspended' : 'This user is not suspended');
+      }
+
+      if (suspend && !note?.trim()) {
+        throw new Error('Please give a reason for the suspension');
+      }
+
+      const { error: banError } = await supabase.auth.admin.updateUserById(profile.user_id, {
+        ban_duration: suspend ? SUSPENSION_BAN_DURATION : 'none',
+      });
+
+      if (banError) {
+        throw banError;
+      }
+
+      const { data: updatedProfile, error: updateError } = await supabase
+        .from('profiles')
+        .update({
+          suspended_at: suspend ? new Date().toISOString() : null,
+          suspension_reason: suspend ? note!.trim() : null,
+        })
+        .eq('user_id', profile.user_id)
+        .select()
+        .single();
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      // Suspended drivers drop off the board and out of dispatch
+      if (suspend && profile.user_type === 'driver') {
+        await supabase
+          .from('driver_profiles')
+          .update({ is_available: false })
+          .eq('user_id', profile.user_id);
+      }
+
+      result = updatedProfile;
+      targetType = 'user';
+      targetId = profile.user_id;
+      details = { note: note?.trim() || null };
+    } else {
+      throw new HttpError(400, 'Unknown admin action');
+    }
+
+    const { error: auditError } = await supabase
+      .from('admin_audit_log')
+      .insert({
+        admin_id: user.id,
+        action,
+        target_type: targetType,
+        target_id: targetId,
+        details,
+      });
+
+    // The action has happened, but an unaudited admin action must not look like a success
+    if (auditError) {
+      throw auditError;
+    }
+
+    return new Response(JSON.stringify({ success: true, result }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in admin-actions function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
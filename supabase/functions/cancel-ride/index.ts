@@ -0,0 +1,183 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CancellingParty, isValidReason, reasonLabel } from '../_shared/cancellation.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface CancelRideRequest {
+  ride_id: string;
+  reason_code: string;
+  note?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get the authenticated user
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { ride_id, reason_code, note }: CancelRideRequest = await req.json();
+
+    const { data: ride, error: rideError } = await supabase
+      .from('rides')
+      .select('*')
+      .eq('id', ride_id)
+      .maybeSingle();
+
+    if (rideError) {
+      throw rideError;
+    }
+
+    if (!ride) {
+      throw new HttpError(404, 'Ride not found');
+    }
+
+    const party: CancellingParty | null =
+      ride.customer_id === user.id ? 'customer' : ride.driver_id === user.id ? 'driver' : null;
+
+    if (!party) {
+      throw new HttpError(403, 'You can only cancel your own rides');
+    }
+
+    if (!isValidReason(party, reason_code)) {
+      throw new Error('Please choose a cancellation reason');
+    }
+
+    let fee = 0;
+    let updateData: Record<string, unknown>;
+
+    if (party === 'customer') {
+      if (!['scheduled', 'pending', 'accepted'].includes(ride.status)) {
+        throw new HttpError(409, `A ${ride.status.replace('_', ' ')} ride can no longer be cancelled`);
+      }
+
+      // Cancelling after a driver has committed to the trip incurs the configured fee
+      if (ride.status === 'accepted') {
+        const { data: tariff, error: tariffError } = await supabase
+          .from('fare_tariffs')
+          .select('cancellation_fee')
+          .eq('vehicle_type', ride.vehicle_type)
+          .single();
+
+        if (tariffError) {
+          throw tariffError;
+        }
+        fee = Number(tariff.cancellation_fee);
+      }
+
+      updateData = {
+        status: 'cancelled',
+        cancelled_by: user.id,
+        cancellation_reason: reason_code,
+        cancellation_fee: fee,
+      };
+    } else {
+      if (ride.status !== 'accepted') {
+        throw new HttpError(409, 'Drivers can only back out of rides that have not started');
+      }
+
+      // A driver backing out returns the ride to the pending pool for someone else
+      updateData = {
+        status: 'pending',
+        driver_id: null,
+      };
+    }
+
+    // Conditional on the status we validated against, so a concurrent change loses cleanly
+    const { data: updatedRide, error: updateError } = await supabase
+      .from('rides')
+      .update(updateData)
+      .eq('id', ride_id)
+      .eq('status', ride.status)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (!updatedRide) {
+      throw new HttpError(409, 'The ride was updated by someone else. Please refresh and try again.');
+    }
+
+    if (party === 'customer') {
+      await supabase
+        .from('ride_bids')
+        .update({ status: 'rejected' })
+        .eq('ride_id', ride_id)
+        .eq('status', 'open');
+    }
+
+    const { error: logError } = await supabase
+      .from('ride_cancellations')
+      .insert({
+        ride_id,
+        cancelled_by: user.id,
+        cancelled_by_role: party,
+        reason_code,
+        note: note || null,
+        fee,
+      });
+
+    if (logError) {
+      console.error('Error recording cancellation:', logError);
+    }
+
+    // Notify the other party
+    if (party === 'customer' && ride.driver_id) {
+      await supabase
+        .from('ride_notifications')
+        .insert({
+          ride_id,
+          user_id: ride.driver_id,
+          message: `The customer cancelled the ride from ${ride.from_location} (${reasonLabel(reason_code)}).`,
+        });
+    } else if (party === 'driver') {
+      await supabase
+        .from('ride_notifications')
+        .insert({
+          ride_id,
+          user_id: ride.customer_id,
+          message: `Your driver had to cancel (${reasonLabel(reason_code)}). We're finding you another driver.`,
+        });
+    }
+
+    return new Response(JSON.stringify({ success: true, ride: updatedRide, cancellation_fee: fee }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in cancel-ride function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -1,25 +1,27 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { dispatchRide } from '../_shared/dispatcher.ts';
+import { errorMessage, errorStatus } from '../_shared/http.ts';
+import { calculateFare, FareTariff } from '../_shared/fare.ts';
+import { haversineKm } from '../_shared/geo.ts';
+import { createServerGeocoder } from '../_shared/locations.ts';
+import { CreateRideRequest, requireRideCoordinates, validatePriceRange } from '../_shared/rides.ts';
+import { formatPickupTime, isScheduledPickup } from '../_shared/scheduling.ts';
+import { loadSchedulingSettings } from '../_shared/settings.ts';
+import { assertNotSuspended } from '../_shared/suspension.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseKey);
+const geocoder = createServerGeocoder(supabase);
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface CreateRideRequest {
-  from_location: string;
-  to_location: string;
-  pickup_time: string;
-  vehicle_type: 'auto' | 'car' | 'bike';
-  notes?: string;
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -40,7 +42,16 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    const { from_location, to_location, pickup_time, vehicle_type, notes }: CreateRideRequest = await req.json();
+    await assertNotSuspended(supabase, user.id);
+
+    const rideRequest: CreateRideRequest = await req.json();
+    const { from_location, to_location, pickup_time, vehicle_type, notes, min_price, max_price, driver_price } = rideRequest;
+
+    validatePriceRange(rideRequest);
+
+    // Every ride needs pickup and drop-off coordinates for distance and dispatch
+    const coordinates = await requireRideCoordinates(rideRequest, geocoder);
+    const distanceKm = haversineKm(coordinates.from, coordinates.to);
 
     // Get customer profile
     const { data: customerProfile, error: profileError } = await supabase
@@ -53,21 +64,47 @@ serve(async (req) => {
       throw new Error('Customer profile not found');
     }
 
-    // Calculate estimated fare (basic calculation)
-    const baseFare = vehicle_type === 'bike' ? 30 : vehicle_type === 'auto' ? 50 : 80;
-    const estimatedFare = Math.round(baseFare + Math.random() * 100); // Simple random fare calculation
+    // Price the ride from the configured tariff for this vehicle type
+    const { data: tariff, error: tariffError } = await supabase
+      .from('fare_tariffs')
+      .select('*')
+      .eq('vehicle_type', vehicle_type)
+      .single();
+
+    if (tariffError || !tariff) {
+      throw new Error(`No fare tariff configured for ${vehicle_type}`);
+    }
+
+    const fareBreakdown = calculateFare(
+      { distanceKm, pickupTime: pickup_time },
+      tariff as FareTariff
+    );
+
+    // Rides booked well ahead are held until shortly before pickup
+    const scheduled = isScheduledPickup(pickup_time, new Date(), await loadSchedulingSettings(supabase));
 
     // Create the ride
     const { data: ride, error: rideError } = await supabase
       .from('rides')
       .insert({
         customer_id: user.id,
+        status: scheduled ? 'scheduled' : 'pending',
+        is_scheduled: scheduled,
         from_location,
         to_location,
         pickup_time,
         vehicle_type,
         notes,
-        estimated_fare: estimatedFare,
+        from_latitude: coordinates.from.latitude,
+        from_longitude: coordinates.from.longitude,
+        to_latitude: coordinates.to.latitude,
+        to_longitude: coordinates.to.longitude,
+        distance_km: distanceKm,
+        estimated_fare: fareBreakdown.total,
+        fare_breakdown: fareBreakdown,
+        min_price,
+        max_price,
+        driver_price,
       })
       .select()
       .single();
@@ -76,6 +113,16 @@ serve(async (req) => {
       throw rideError;
     }
 
+    // Offer the ride to the nearest drivers right away; the cron job takes over
+    // from here, so a failure only delays the first wave.
+    if (!scheduled) {
+      try {
+        await dispatchRide(supabase, ride);
+      } catch (dispatchError) {
+        console.error('Error dispatching new ride:', dispatchError);
+      }
+    }
+
     // Email notifications disabled
 
     // Create notification for customer
@@ -84,19 +131,21 @@ serve(async (req) => {
       .insert({
         ride_id: ride.id,
         user_id: user.id,
-        message: `Your ride request from ${from_location} to ${to_location} has been submitted.`,
+        message: scheduled
+          ? `Your ride from ${from_location} to ${to_location} is scheduled for ${formatPickupTime(pickup_time, tariff.utc_offset_minutes)}.`
+          : `Your ride request from ${from_location} to ${to_location} has been submitted.`,
       });
 
     return new Response(JSON.stringify({ success: true, ride }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error in create-ride function:', error);
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: errorMessage(error) }),
       {
-        status: 400,
+        status: errorStatus(error),
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
     );
@@ -0,0 +1,156 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DISPATCHABLE_RIDE_COLUMNS, dispatchRide } from '../_shared/dispatcher.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+import { isValidDeclineReason } from '../_shared/offers.ts';
+import { assertNotSuspended } from '../_shared/suspension.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DeclineRideRequest {
+  ride_id: string;
+  reason_code: string;
+  note?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get the authenticated user
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    await assertNotSuspended(supabase, user.id);
+
+    const { ride_id, reason_code, note }: DeclineRideRequest = await req.json();
+
+    if (!isValidDeclineReason(reason_code)) {
+      throw new Error('Please choose a reason for declining');
+    }
+
+    const { data: ride, error: rideError } = await supabase
+      .from('rides')
+      .select(`${DISPATCHABLE_RIDE_COLUMNS}, status, opened_to_board_at`)
+      .eq('id', ride_id)
+      .maybeSingle();
+
+    if (rideError) {
+      throw rideError;
+    }
+
+    if (!ride) {
+      throw new HttpError(404, 'Ride not found');
+    }
+
+    if (ride.status !== 'pending') {
+      throw new HttpError(409, 'This ride is no longer available');
+    }
+
+    const decline = {
+      status: 'declined',
+      responded_at: new Date().toISOString(),
+      decline_reason: reason_code,
+      decline_note: note || null,
+    };
+
+    // Answer our live offer if we hold one
+    const { data: offer, error: offerError } = await supabase
+      .from('ride_offers')
+      .update(decline)
+      .eq('ride_id', ride_id)
+      .eq('driver_id', user.id)
+      .eq('status', 'offered')
+      .select('id')
+      .maybeSingle();
+
+    if (offerError) {
+      throw offerError;
+    }
+
+    if (offer) {
+      // If that was the last open offer of the wave, move on to the next one now
+      if (!ride.opened_to_board_at) {
+        try {
+          await dispatchRide(supabase, ride);
+        } catch (dispatchError) {
+          console.error('Error dispatching declined ride:', dispatchError);
+        }
+      }
+    } else {
+      if (!ride.opened_to_board_at) {
+        throw new HttpError(403, 'This ride is not offered to you');
+      }
+
+      // Declining from the open board just hides the ride for us. A lapsed
+      // offer keeps its wave; otherwise a wave 0 row records the decline. An
+      // offer we once accepted (before backing out) stays accepted so the
+      // acceptance stats are not rewritten.
+      const { data: existing, error: existingError } = await supabase
+        .from('ride_offers')
+        .select('id, status')
+        .eq('ride_id', ride_id)
+        .eq('driver_id', user.id)
+        .maybeSingle();
+
+      if (existingError) {
+        throw existingError;
+      }
+
+      if (!existing) {
+        const { error: declineError } = await supabase
+          .from('ride_offers')
+          .insert({ ride_id, driver_id: user.id, wave: 0, ...decline });
+
+        if (declineError) {
+          throw declineError;
+        }
+      } else if (existing.status !== 'accepted') {
+        const { error: lapsedError } = await supabase
+          .from('ride_offers')
+          .update(decline)
+          .eq('id', existing.id)
+          .neq('status', 'accepted');
+
+        if (lapsedError) {
+          throw lapsedError;
+        }
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in decline-ride function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,84 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DISPATCHABLE_RIDE_COLUMNS, DispatchableRide, dispatchRide } from '../_shared/dispatcher.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Rides handled per run; the cron job calls us every 30 seconds
+const BATCH_SIZE = 100;
+
+// Advances dispatch for every pending ride that is still being offered
+// in waves. Called by the dispatch-rides cron job with the service role key.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (authHeader !== `Bearer ${supabaseKey}`) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    // Lapsed offers are marked expired so they count against acceptance stats
+    const { error: expireError } = await supabase
+      .from('ride_offers')
+      .update({ status: 'expired' })
+      .eq('status', 'offered')
+      .lt('expires_at', new Date().toISOString());
+
+    if (expireError) {
+      throw expireError;
+    }
+
+    const { data: rides, error: ridesError } = await supabase
+      .from('rides')
+      .select(DISPATCHABLE_RIDE_COLUMNS)
+      .eq('status', 'pending')
+      .is('opened_to_board_at', null)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (ridesError) {
+      throw ridesError;
+    }
+
+    const summary = { offered: 0, opened: 0, waiting: 0, failed: 0 };
+
+    for (const ride of (rides ?? []) as DispatchableRide[]) {
+      try {
+        const plan = await dispatchRide(supabase, ride);
+        if (plan.action === 'offer') summary.offered++;
+        else if (plan.action === 'open_board') summary.opened++;
+        else summary.waiting++;
+      } catch (error) {
+        console.error(`Error dispatching ride ${ride.id}:`, error);
+        summary.failed++;
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, ...summary }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in dispatch-rides function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
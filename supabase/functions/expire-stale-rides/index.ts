@@ -0,0 +1,92 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+import { loadNumberSetting } from '../_shared/settings.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EXPIRY_GRACE_KEY = 'pending_expiry_grace_minutes';
+const DEFAULT_EXPIRY_GRACE_MINUTES = 15;
+
+// Expires pending rides whose pickup time passed without a driver, and
+// scheduled rides that were never released in time. Called by the
+// expire-stale-rides cron job with the service role key.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (authHeader !== `Bearer ${supabaseKey}`) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const graceMinutes = await loadNumberSetting(supabase, EXPIRY_GRACE_KEY, DEFAULT_EXPIRY_GRACE_MINUTES);
+    const cutoff = new Date(Date.now() - graceMinutes * 60_000).toISOString();
+
+    // Conditional on still being unassigned, so a last-moment accept wins
+    const { data: expiredRides, error: expireError } = await supabase
+      .from('rides')
+      .update({ status: 'expired' })
+      .in('status', ['scheduled', 'pending'])
+      .lt('pickup_time', cutoff)
+      .select('id, customer_id, from_location, to_location');
+
+    if (expireError) {
+      throw expireError;
+    }
+
+    const rideIds = (expiredRides ?? []).map((ride) => ride.id);
+
+    if (rideIds.length > 0) {
+      // Nothing is left to answer on an expired ride
+      await supabase
+        .from('ride_offers')
+        .update({ status: 'expired' })
+        .in('ride_id', rideIds)
+        .eq('status', 'offered');
+
+      await supabase
+        .from('ride_bids')
+        .update({ status: 'rejected' })
+        .in('ride_id', rideIds)
+        .eq('status', 'open');
+
+      const { error: notifyError } = await supabase
+        .from('ride_notifications')
+        .insert((expiredRides ?? []).map((ride) => ({
+          ride_id: ride.id,
+          user_id: ride.customer_id,
+          message: `No driver accepted your ride from ${ride.from_location} to ${ride.to_location} in time. You can re-book it from your ride history.`,
+        })));
+
+      if (notifyError) {
+        console.error('Error notifying customers of expired rides:', notifyError);
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, expired: rideIds.length }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in expire-stale-rides function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,173 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+import { isAdmin } from '../_shared/admin.ts';
+import {
+  csvHeader,
+  csvLine,
+  EXPORT_COLUMNS,
+  ExportFormat,
+  exportFilename,
+  ExportRow,
+  exportUtcOffset,
+  validateExportRequest,
+} from '../_shared/export.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'content-disposition',
+};
+
+// Rides are read and written out one page at a time so memory stays flat
+const PAGE_SIZE = 500;
+
+const RIDE_COLUMNS = `
+  ${EXPORT_COLUMNS.filter((column) => column !== 'customer_name' && column !== 'driver_name').join(', ')},
+  customer:profiles!rides_customer_id_fkey(full_name),
+  driver:profiles!rides_driver_id_fkey(full_name)
+`;
+
+interface ExportRidesRequest {
+  format: ExportFormat;
+  from: string;
+  to: string;
+  // The exporter's offset from UTC, used to name the file after their dates
+  utc_offset_minutes?: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get the authenticated user
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { format, from, to, utc_offset_minutes }: ExportRidesRequest = await req.json();
+    validateExportRequest(format, from, to);
+
+    // Admins export every ride; everyone else only the rides they took part in
+    let participantColumn: 'customer_id' | 'driver_id' | null = null;
+    if (!isAdmin(user)) {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('user_type')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (profileError) {
+        throw profileError;
+      }
+
+      if (!profile) {
+        throw new HttpError(403, 'Only customers, drivers and admins can export rides');
+      }
+
+      participantColumn = profile.user_type === 'driver' ? 'driver_id' : 'customer_id';
+    }
+
+    const fetchPage = async (page: number): Promise<ExportRow[]> => {
+      let query = supabase
+        .from('rides')
+        .select(RIDE_COLUMNS)
+        .gte('pickup_time', from)
+        .lt('pickup_time', to);
+
+      if (participantColumn) {
+        query = query.eq(participantColumn, user.id);
+      }
+
+      const { data, error } = await query
+        .order('pickup_time', { ascending: true })
+        .order('id', { ascending: true })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      return (data ?? []).map(({ customer, driver, ...ride }) => ({
+        ...ride,
+        customer_name: customer?.full_name ?? null,
+        driver_name: driver?.full_name ?? null,
+      }));
+    };
+
+    // Read the first page up front so query errors still get a JSON error response
+    const firstPage = await fetchPage(0);
+    const encoder = new TextEncoder();
+    let page = 0;
+    let rows = firstPage;
+    let written = 0;
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(format === 'csv' ? csvHeader() : '['));
+      },
+      async pull(controller) {
+        try {
+          if (page > 0) {
+            rows = await fetchPage(page);
+          }
+
+          const chunk = rows
+            .map((row) => (format === 'csv' ? csvLine(row) : `${written++ > 0 ? ',' : ''}\n${JSON.stringify(row)}`))
+            .join('');
+          if (chunk) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+
+          if (rows.length < PAGE_SIZE) {
+            if (format === 'json') {
+              controller.enqueue(encoder.encode('\n]\n'));
+            }
+            controller.close();
+          }
+          page++;
+        } catch (error) {
+          console.error('Error streaming export-rides:', error);
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${exportFilename(format, from, to, exportUtcOffset(utc_offset_minutes))}"`,
+        // Lets the browser read the filename on a cross-origin fetch
+        'Access-Control-Expose-Headers': 'Content-Disposition',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in export-rides function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,92 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { calculateFare, FareTariff, findTariff } from '../_shared/fare.ts';
+import { estimateTravelMinutes, haversineKm } from '../_shared/geo.ts';
+import { createServerGeocoder } from '../_shared/locations.ts';
+import { errorMessage, errorStatus } from '../_shared/http.ts';
+import { CreateRideRequest, requireRideCoordinates, VEHICLE_TYPES } from '../_shared/rides.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+const geocoder = createServerGeocoder(supabase);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get the authenticated user
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    // Same payload as create-ride; price fields and vehicle_type are ignored
+    const rideRequest: CreateRideRequest = await req.json();
+    const { from_location, to_location, pickup_time } = rideRequest;
+
+    if (!from_location || !to_location || !pickup_time) {
+      throw new Error('From location, to location and pickup time are required');
+    }
+
+    const { data: tariffs, error: tariffError } = await supabase
+      .from('fare_tariffs')
+      .select('*');
+
+    if (tariffError) {
+      throw tariffError;
+    }
+
+    // Addresses create-ride would reject get its error instead of a quote
+    const coordinates = await requireRideCoordinates(rideRequest, geocoder);
+    const distanceKm = haversineKm(coordinates.from, coordinates.to);
+
+    // Quote every vehicle type so the customer can choose by price
+    const quotes = VEHICLE_TYPES.map((vehicleType) => {
+      const tariff = findTariff(tariffs as FareTariff[], vehicleType);
+      const fareBreakdown = calculateFare(
+        { distanceKm, pickupTime: pickup_time },
+        tariff
+      );
+
+      return {
+        vehicle_type: vehicleType,
+        estimated_fare: fareBreakdown.total,
+        fare_breakdown: fareBreakdown,
+        distance_km: distanceKm,
+        eta_minutes: estimateTravelMinutes(distanceKm, Number(tariff.average_speed_kmph)),
+      };
+    });
+
+    return new Response(JSON.stringify({ success: true, quotes }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in quote-ride function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,116 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+import { isWithinRatingWindow, RATING_WINDOW_HOURS, RatedParty, validateRating } from '../_shared/ratings.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Postgres unique_violation: this party already rated the ride
+const UNIQUE_VIOLATION = '23505';
+
+interface RateRideRequest {
+  ride_id: string;
+  rating: number;
+  tags?: string[];
+  comment?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get the authenticated user
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { ride_id, rating, tags = [], comment }: RateRideRequest = await req.json();
+
+    const { data: ride, error: rideError } = await supabase
+      .from('rides')
+      .select('id, status, customer_id, driver_id, completed_at')
+      .eq('id', ride_id)
+      .maybeSingle();
+
+    if (rideError) {
+      throw rideError;
+    }
+
+    if (!ride) {
+      throw new HttpError(404, 'Ride not found');
+    }
+
+    // Each party rates the other
+    const ratee: RatedParty | null =
+      ride.customer_id === user.id ? 'driver' : ride.driver_id === user.id ? 'customer' : null;
+
+    if (!ratee) {
+      throw new HttpError(403, 'You can only rate your own rides');
+    }
+
+    if (ride.status !== 'completed') {
+      throw new HttpError(409, 'Rides can be rated once they are completed');
+    }
+
+    if (!isWithinRatingWindow(ride.completed_at)) {
+      throw new HttpError(409, `Rides can only be rated within ${RATING_WINDOW_HOURS} hours of completion`);
+    }
+
+    validateRating(ratee, rating, tags, comment);
+
+    const { data: saved, error: insertError } = await supabase
+      .from('ride_ratings')
+      .insert({
+        ride_id,
+        rater_id: user.id,
+        ratee_id: ratee === 'driver' ? ride.driver_id : ride.customer_id,
+        ratee_role: ratee,
+        rating,
+        tags,
+        comment: comment?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === UNIQUE_VIOLATION) {
+        throw new HttpError(409, 'You have already rated this ride');
+      }
+      throw insertError;
+    }
+
+    return new Response(JSON.stringify({ success: true, rating: saved }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in rate-ride function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
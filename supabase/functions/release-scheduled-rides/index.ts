@@ -0,0 +1,150 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DISPATCHABLE_RIDE_COLUMNS, DispatchableRide, dispatchRide } from '../_shared/dispatcher.ts';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+import { releaseCutoff, reminderCutoff } from '../_shared/scheduling.ts';
+import { loadSchedulingSettings } from '../_shared/settings.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Rides handled per run; the cron job calls us every minute
+const BATCH_SIZE = 100;
+
+// Releases scheduled rides whose pickup is within the lead time and sends
+// reminders. Called by the release-scheduled-rides cron job with the service
+// role key.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (authHeader !== `Bearer ${supabaseKey}`) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const now = new Date();
+    const settings = await loadSchedulingSettings(supabase);
+    const summary = { released: 0, reminded: 0, failed: 0 };
+
+    const { data: dueRides, error: dueError } = await supabase
+      .from('rides')
+      .select(`${DISPATCHABLE_RIDE_COLUMNS}, from_location`)
+      .eq('status', 'scheduled')
+      .lte('pickup_time', releaseCutoff(now, settings))
+      .order('pickup_time', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (dueError) {
+      throw dueError;
+    }
+
+    for (const ride of dueRides ?? []) {
+      try {
+        // Conditional, so a customer cancelling at the same moment wins cleanly
+        const { data: released, error: releaseError } = await supabase
+          .from('rides')
+          .update({ status: 'pending' })
+          .eq('id', ride.id)
+          .eq('status', 'scheduled')
+          .select('id')
+          .maybeSingle();
+
+        if (releaseError) throw releaseError;
+        if (!released) continue;
+
+        summary.released++;
+        // Tell the customer first; the ride is pending now even if this
+        // dispatch step fails, and dispatch-rides will pick it up next run
+        await supabase
+          .from('ride_notifications')
+          .insert({
+            ride_id: ride.id,
+            user_id: ride.customer_id,
+            message: `We're now finding a driver for your scheduled ride from ${ride.from_location}.`,
+          });
+        await dispatchRide(supabase, ride as DispatchableRide, now);
+      } catch (error) {
+        console.error(`Error releasing ride ${ride.id}:`, error);
+        summary.failed++;
+      }
+    }
+
+    // Remind both parties once, shortly before pickup
+    const { data: upcomingRides, error: upcomingError } = await supabase
+      .from('rides')
+      .select('id, customer_id, driver_id, from_location, pickup_time')
+      .eq('is_scheduled', true)
+      .in('status', ['scheduled', 'pending', 'accepted'])
+      .is('reminder_sent_at', null)
+      .gt('pickup_time', now.toISOString())
+      .lte('pickup_time', reminderCutoff(now, settings))
+      .limit(BATCH_SIZE);
+
+    if (upcomingError) {
+      throw upcomingError;
+    }
+
+    for (const ride of upcomingRides ?? []) {
+      const { data: claimed } = await supabase
+        .from('rides')
+        .update({ reminder_sent_at: now.toISOString() })
+        .eq('id', ride.id)
+        .is('reminder_sent_at', null)
+        .select('id')
+        .maybeSingle();
+
+      if (!claimed) continue;
+
+      const minutes = Math.max(1, Math.round((new Date(ride.pickup_time).getTime() - now.getTime()) / 60_000));
+      const notifications = [
+        {
+          ride_id: ride.id,
+          user_id: ride.customer_id,
+          message: ride.driver_id
+            ? `Reminder: your driver picks you up at ${ride.from_location} in about ${minutes} minutes.`
+            : `Reminder: your ride from ${ride.from_location} is in about ${minutes} minutes. We're still finding a driver.`,
+        },
+      ];
+      if (ride.driver_id) {
+        notifications.push({
+          ride_id: ride.id,
+          user_id: ride.driver_id,
+          message: `Reminder: pickup at ${ride.from_location} in about ${minutes} minutes.`,
+        });
+      }
+
+      const { error: notifyError } = await supabase.from('ride_notifications').insert(notifications);
+      if (notifyError) {
+        console.error(`Error sending reminders for ride ${ride.id}:`, notifyError);
+        summary.failed++;
+      } else {
+        summary.reminded++;
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, ...summary }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in release-scheduled-rides function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,139 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+import { validateBidAmount } from '../_shared/rides.ts';
+import { assertNotSuspended } from '../_shared/suspension.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface SubmitRideBidRequest {
+  ride_id: string;
+  amount: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get the authenticated user
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    await assertNotSuspended(supabase, user.id);
+
+    const { ride_id, amount }: SubmitRideBidRequest = await req.json();
+
+    const { data: driverVehicle, error: vehicleError } = await supabase
+      .from('driver_profiles')
+      .select('vehicle_type')
+      .eq('user_id', user.id)
+      .single();
+
+    if (vehicleError || !driverVehicle) {
+      throw new Error('Driver vehicle profile not found');
+    }
+
+    const { data: ride, error: rideError } = await supabase
+      .from('rides')
+      .select('id, customer_id, status, vehicle_type, min_price, max_price, opened_to_board_at')
+      .eq('id', ride_id)
+      .maybeSingle();
+
+    if (rideError) {
+      throw rideError;
+    }
+
+    if (!ride) {
+      throw new HttpError(404, 'Ride not found');
+    }
+
+    if (ride.status !== 'pending') {
+      throw new HttpError(409, 'This ride is no longer available');
+    }
+
+    if (ride.vehicle_type !== driverVehicle.vehicle_type || ride.customer_id === user.id) {
+      throw new HttpError(403, 'You cannot bid on this ride');
+    }
+
+    // Same visibility as the board: open rides, or rides currently offered to us
+    if (!ride.opened_to_board_at) {
+      const { data: offer } = await supabase
+        .from('ride_offers')
+        .select('id')
+        .eq('ride_id', ride_id)
+        .eq('driver_id', user.id)
+        .eq('status', 'offered')
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (!offer) {
+        throw new HttpError(403, 'This ride is currently offered to other drivers');
+      }
+    }
+
+    validateBidAmount(amount, ride);
+
+    // One bid per driver and ride; bidding again revises the amount
+    const { data: bid, error: bidError } = await supabase
+      .from('ride_bids')
+      .upsert(
+        {
+          ride_id,
+          customer_id: ride.customer_id,
+          driver_id: user.id,
+          amount,
+          status: 'open',
+        },
+        { onConflict: 'ride_id,driver_id' }
+      )
+      .select()
+      .single();
+
+    if (bidError) {
+      throw bidError;
+    }
+
+    await supabase
+      .from('ride_notifications')
+      .insert({
+        ride_id,
+        user_id: ride.customer_id,
+        message: `A driver offered to take your ride for ₹${amount}.`,
+      });
+
+    return new Response(JSON.stringify({ success: true, bid }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in submit-ride-bid function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,125 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { errorMessage, errorStatus, HttpError } from '../_shared/http.ts';
+import { DRIVER_STATUS_TRANSITIONS, RideStatus } from '../_shared/rideStatus.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface UpdateRideStatusRequest {
+  ride_id: string;
+  status: RideStatus;
+  distance_km?: number;
+  final_fare?: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get the authenticated user
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { ride_id, status, distance_km, final_fare }: UpdateRideStatusRequest = await req.json();
+
+    const { data: ride, error: rideError } = await supabase
+      .from('rides')
+      .select('*')
+      .eq('id', ride_id)
+      .maybeSingle();
+
+    if (rideError) {
+      throw rideError;
+    }
+
+    if (!ride) {
+      throw new HttpError(404, 'Ride not found');
+    }
+
+    // Only the assigned driver moves a ride forward; cancellations use cancel-ride
+    if (ride.driver_id !== user.id) {
+      throw new HttpError(403, 'Only the assigned driver can update this ride');
+    }
+
+    if (DRIVER_STATUS_TRANSITIONS[ride.status as RideStatus] !== status) {
+      throw new HttpError(409, `Cannot change a ${ride.status.replace('_', ' ')} ride to ${String(status).replace('_', ' ')}`);
+    }
+
+    const updateData: Record<string, unknown> = { status };
+
+    if (status === 'completed') {
+      if (typeof distance_km !== 'number' || distance_km < 0 || typeof final_fare !== 'number' || final_fare < 0) {
+        throw new Error('Distance and fare are required to complete a ride');
+      }
+      if (ride.min_price != null && (final_fare < ride.min_price || final_fare > ride.max_price)) {
+        throw new Error(`Fare must be between ₹${ride.min_price} and ₹${ride.max_price} as agreed with the customer`);
+      }
+      updateData.distance_km = distance_km;
+      updateData.final_fare = final_fare;
+    }
+
+    // Conditional on the status we validated against, so a concurrent change loses cleanly
+    const { data: updatedRide, error: updateError } = await supabase
+      .from('rides')
+      .update(updateData)
+      .eq('id', ride_id)
+      .eq('status', ride.status)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (!updatedRide) {
+      throw new HttpError(409, 'The ride was updated by someone else. Please refresh and try again.');
+    }
+
+    const message = status === 'in_progress'
+      ? `Your ride from ${ride.from_location} has started.`
+      : `Your ride to ${ride.to_location} is complete. Fare: ₹${final_fare}.`;
+
+    await supabase
+      .from('ride_notifications')
+      .insert({
+        ride_id,
+        user_id: ride.customer_id,
+        message,
+      });
+
+    return new Response(JSON.stringify({ success: true, ride: updatedRide }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in update-ride-status function:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
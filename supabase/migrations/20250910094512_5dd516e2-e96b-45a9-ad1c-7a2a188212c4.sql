@@ -0,0 +1,24 @@
+-- Store the customer's price-bidding range on rides
+ALTER TABLE public.rides
+  ADD COLUMN min_price DECIMAL(10, 2),
+  ADD COLUMN max_price DECIMAL(10, 2),
+  ADD COLUMN driver_price DECIMAL(10, 2);
+
+-- The range is all-or-nothing, and the price shown to drivers must sit inside it
+ALTER TABLE public.rides
+  ADD CONSTRAINT rides_price_range_check CHECK (
+    (min_price IS NULL AND max_price IS NULL AND driver_price IS NULL)
+    OR (
+      min_price >= 0
+      AND max_price > min_price
+      AND driver_price BETWEEN min_price AND max_price
+    )
+  );
+
+-- Never charge a customer outside the range they agreed to
+ALTER TABLE public.rides
+  ADD CONSTRAINT rides_final_fare_in_range_check CHECK (
+    final_fare IS NULL
+    OR min_price IS NULL
+    OR final_fare BETWEEN min_price AND max_price
+  );
@@ -0,0 +1,46 @@
+-- Per-vehicle tariff tables used by the fare engine
+CREATE TABLE public.fare_tariffs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vehicle_type vehicle_type NOT NULL UNIQUE,
+  base_fare DECIMAL(10, 2) NOT NULL,
+  included_km DECIMAL(6, 2) NOT NULL DEFAULT 0,
+  per_km_rate DECIMAL(10, 2) NOT NULL,
+  free_waiting_minutes INTEGER NOT NULL DEFAULT 0,
+  waiting_per_minute DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  minimum_fare DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  -- [{ "label": "Night charge", "start_hour": 22, "end_hour": 6, "multiplier": 1.25 }]
+  time_multipliers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  utc_offset_minutes INTEGER NOT NULL DEFAULT 330,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (base_fare >= 0 AND included_km >= 0 AND per_km_rate >= 0),
+  CHECK (free_waiting_minutes >= 0 AND waiting_per_minute >= 0 AND minimum_fare >= 0)
+);
+
+ALTER TABLE public.fare_tariffs ENABLE ROW LEVEL SECURITY;
+
+-- Tariffs are public so the client can price rides; only the service role may change them
+CREATE POLICY "Fare tariffs are viewable by everyone" 
+ON public.fare_tariffs FOR SELECT USING (true);
+
+CREATE TRIGGER update_fare_tariffs_updated_at
+BEFORE UPDATE ON public.fare_tariffs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.fare_tariffs
+  (vehicle_type, base_fare, included_km, per_km_rate, free_waiting_minutes, waiting_per_minute, minimum_fare, time_multipliers)
+VALUES
+  ('bike', 30, 1, 8, 3, 1, 40,
+    '[{"label": "Night charge", "start_hour": 22, "end_hour": 6, "multiplier": 1.25}]'),
+  ('auto', 50, 1.5, 12, 3, 1.5, 60,
+    '[{"label": "Night charge", "start_hour": 22, "end_hour": 6, "multiplier": 1.5},
+      {"label": "Morning peak", "start_hour": 8, "end_hour": 10, "multiplier": 1.1},
+      {"label": "Evening peak", "start_hour": 17, "end_hour": 20, "multiplier": 1.1}]'),
+  ('car', 80, 2, 16, 5, 2, 100,
+    '[{"label": "Night charge", "start_hour": 22, "end_hour": 6, "multiplier": 1.25},
+      {"label": "Morning peak", "start_hour": 8, "end_hour": 10, "multiplier": 1.2},
+      {"label": "Evening peak", "start_hour": 17, "end_hour": 20, "multiplier": 1.2}]');
+
+-- Keep the line items each ride was priced with
+ALTER TABLE public.rides ADD COLUMN fare_breakdown JSONB;
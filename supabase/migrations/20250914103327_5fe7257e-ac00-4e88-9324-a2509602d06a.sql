@@ -0,0 +1,7 @@
+-- Average road speed per vehicle type, used to estimate trip duration in fare quotes
+ALTER TABLE public.fare_tariffs
+  ADD COLUMN average_speed_kmph DECIMAL(5, 2) NOT NULL DEFAULT 25 CHECK (average_speed_kmph > 0);
+
+UPDATE public.fare_tariffs SET average_speed_kmph = 30 WHERE vehicle_type = 'bike';
+UPDATE public.fare_tariffs SET average_speed_kmph = 22 WHERE vehicle_type = 'auto';
+UPDATE public.fare_tariffs SET average_speed_kmph = 25 WHERE vehicle_type = 'car';
@@ -0,0 +1,43 @@
+-- Create saved place kind enum
+CREATE TYPE public.saved_place_kind AS ENUM ('home', 'work', 'custom');
+
+-- Per-user saved places for quick booking
+CREATE TABLE public.saved_places (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  kind saved_place_kind NOT NULL DEFAULT 'custom',
+  label TEXT NOT NULL,
+  address TEXT NOT NULL,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one Home and one Work per user
+CREATE UNIQUE INDEX saved_places_user_home_work_idx
+ON public.saved_places (user_id, kind)
+WHERE kind IN ('home', 'work');
+
+ALTER TABLE public.saved_places ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved places" 
+ON public.saved_places FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved places" 
+ON public.saved_places FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved places" 
+ON public.saved_places FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved places" 
+ON public.saved_places FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_places_updated_at
+BEFORE UPDATE ON public.saved_places
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,64 @@
+-- Record when each ride status transition happened
+ALTER TABLE public.rides
+  ADD COLUMN accepted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+-- Enforce the ride status state machine (mirrors supabase/functions/_shared/rideStatus.ts)
+CREATE OR REPLACE FUNCTION public.enforce_ride_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('accepted', 'cancelled'))
+      OR (OLD.status = 'accepted' AND NEW.status IN ('in_progress', 'cancelled'))
+      OR (OLD.status = 'in_progress' AND NEW.status = 'completed')
+    ) THEN
+      RAISE EXCEPTION 'Invalid ride status transition from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status IN ('accepted', 'in_progress', 'completed') AND NEW.driver_id IS NULL THEN
+      RAISE EXCEPTION 'A ride must have a driver to be %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'completed' AND NEW.final_fare IS NULL THEN
+      RAISE EXCEPTION 'A final fare is required to complete a ride'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    CASE NEW.status
+      WHEN 'accepted' THEN NEW.accepted_at = now();
+      WHEN 'in_progress' THEN NEW.started_at = now();
+      WHEN 'completed' THEN NEW.completed_at = now();
+      WHEN 'cancelled' THEN NEW.cancelled_at = now();
+      ELSE NULL;
+    END CASE;
+  END IF;
+
+  -- The fare is only settled as part of completing the ride
+  IF NEW.final_fare IS DISTINCT FROM OLD.final_fare AND NEW.status <> 'completed' THEN
+    RAISE EXCEPTION 'The final fare can only be set when completing a ride'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status IN ('completed', 'cancelled') AND NEW.status = OLD.status
+    AND (NEW.final_fare IS DISTINCT FROM OLD.final_fare OR NEW.driver_id IS DISTINCT FROM OLD.driver_id) THEN
+    RAISE EXCEPTION 'A % ride can no longer be changed', OLD.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_ride_status_transition
+BEFORE UPDATE ON public.rides
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_ride_status_transition();
+
+-- Ride updates now go through edge functions only; customers and drivers
+-- can no longer write status, fares or assignments directly.
+DROP POLICY "Drivers can update rides they're assigned to" ON public.rides;
@@ -0,0 +1,92 @@
+-- Configurable fee charged when a customer cancels after a driver accepted
+ALTER TABLE public.fare_tariffs
+  ADD COLUMN cancellation_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (cancellation_fee >= 0);
+
+UPDATE public.fare_tariffs SET cancellation_fee = 20 WHERE vehicle_type = 'bike';
+UPDATE public.fare_tariffs SET cancellation_fee = 30 WHERE vehicle_type = 'auto';
+UPDATE public.fare_tariffs SET cancellation_fee = 50 WHERE vehicle_type = 'car';
+
+-- Who cancelled a ride, why, and what it cost
+ALTER TABLE public.rides
+  ADD COLUMN cancelled_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN cancellation_reason TEXT,
+  ADD COLUMN cancellation_fee DECIMAL(10, 2);
+
+-- Every cancellation, including drivers backing out of rides that return to the pool
+CREATE TABLE public.ride_cancellations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  cancelled_by UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  cancelled_by_role TEXT NOT NULL CHECK (cancelled_by_role IN ('customer', 'driver')),
+  reason_code TEXT NOT NULL,
+  note TEXT,
+  fee DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ride_cancellations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cancellations they made or on their rides" 
+ON public.ride_cancellations FOR SELECT 
+USING (
+  auth.uid() = cancelled_by
+  OR EXISTS (
+    SELECT 1 FROM public.rides
+    WHERE rides.id = ride_cancellations.ride_id AND rides.customer_id = auth.uid()
+  )
+);
+
+-- Allow drivers to back out (accepted -> pending) and clear the assignment when they do
+CREATE OR REPLACE FUNCTION public.enforce_ride_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('accepted', 'cancelled'))
+      OR (OLD.status = 'accepted' AND NEW.status IN ('in_progress', 'cancelled', 'pending'))
+      OR (OLD.status = 'in_progress' AND NEW.status = 'completed')
+    ) THEN
+      RAISE EXCEPTION 'Invalid ride status transition from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status IN ('accepted', 'in_progress', 'completed') AND NEW.driver_id IS NULL THEN
+      RAISE EXCEPTION 'A ride must have a driver to be %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'pending' AND NEW.driver_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A ride returned to the pool cannot keep its driver'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'completed' AND NEW.final_fare IS NULL THEN
+      RAISE EXCEPTION 'A final fare is required to complete a ride'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    CASE NEW.status
+      WHEN 'pending' THEN NEW.accepted_at = NULL;
+      WHEN 'accepted' THEN NEW.accepted_at = now();
+      WHEN 'in_progress' THEN NEW.started_at = now();
+      WHEN 'completed' THEN NEW.completed_at = now();
+      WHEN 'cancelled' THEN NEW.cancelled_at = now();
+      ELSE NULL;
+    END CASE;
+  END IF;
+
+  -- The fare is only settled as part of completing the ride
+  IF NEW.final_fare IS DISTINCT FROM OLD.final_fare AND NEW.status <> 'completed' THEN
+    RAISE EXCEPTION 'The final fare can only be set when completing a ride'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status IN ('completed', 'cancelled') AND NEW.status = OLD.status
+    AND (NEW.final_fare IS DISTINCT FROM OLD.final_fare OR NEW.driver_id IS DISTINCT FROM OLD.driver_id) THEN
+    RAISE EXCEPTION 'A % ride can no longer be changed', OLD.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,50 @@
+-- Auth.tsx signs drivers up with user_type 'driver', but the enum only knew
+-- 'rider', so handle_new_user failed the cast and driver signups errored.
+-- Renaming the value also migrates any existing 'rider' profiles.
+ALTER TYPE public.user_role RENAME VALUE 'rider' TO 'driver';
+
+-- Never fail signup on an unexpected user_type; fall back to customer
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  requested_type TEXT := NEW.raw_user_meta_data->>'user_type';
+BEGIN
+  INSERT INTO public.profiles (user_id, full_name, phone, user_type)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(NEW.raw_user_meta_data->>'phone', ''),
+    CASE
+      WHEN requested_type IN ('driver', 'rider') THEN 'driver'::user_role
+      ELSE 'customer'::user_role
+    END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill: anyone who asked to be a driver or already set up a vehicle is a driver
+UPDATE public.profiles
+SET user_type = 'driver'
+WHERE user_type <> 'driver'
+  AND (
+    user_id IN (SELECT user_id FROM public.driver_profiles)
+    OR user_id IN (
+      SELECT id FROM auth.users
+      WHERE raw_user_meta_data->>'user_type' IN ('driver', 'rider')
+    )
+  );
+
+-- Backfill profiles for any auth users that ended up without one
+INSERT INTO public.profiles (user_id, full_name, phone, user_type)
+SELECT
+  u.id,
+  COALESCE(u.raw_user_meta_data->>'full_name', ''),
+  COALESCE(u.raw_user_meta_data->>'phone', ''),
+  CASE
+    WHEN u.raw_user_meta_data->>'user_type' IN ('driver', 'rider') THEN 'driver'::user_role
+    ELSE 'customer'::user_role
+  END
+FROM auth.users u
+LEFT JOIN public.profiles p ON p.user_id = u.id
+WHERE p.id IS NULL;
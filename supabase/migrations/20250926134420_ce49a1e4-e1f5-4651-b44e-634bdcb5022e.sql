@@ -0,0 +1,84 @@
+-- Drivers could not see any pending rides: the only SELECT policy on rides
+-- was limited to the ride's own customer and driver.
+CREATE POLICY "Available drivers can view pending rides for their vehicle type" 
+ON public.rides FOR SELECT 
+USING (
+  status = 'pending'
+  AND driver_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.driver_profiles
+    WHERE driver_profiles.user_id = auth.uid()
+      AND driver_profiles.vehicle_type = rides.vehicle_type
+      AND driver_profiles.is_available = true
+  )
+);
+
+-- Customer and driver see each other's profile (name and phone) only once
+-- the ride has been accepted.
+CREATE POLICY "Ride counterparts can view each other's profile" 
+ON public.profiles FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rides
+    WHERE rides.status IN ('accepted', 'in_progress', 'completed')
+      AND (
+        (rides.customer_id = profiles.user_id AND rides.driver_id = auth.uid())
+        OR (rides.driver_id = profiles.user_id AND rides.customer_id = auth.uid())
+      )
+  )
+);
+
+-- The driver's ride board: pending rides for the caller's vehicle type with the
+-- customer's name only. Runs as definer because the customer's profile is not
+-- otherwise visible before acceptance; the phone number is never returned.
+CREATE OR REPLACE FUNCTION public.get_available_rides()
+RETURNS TABLE (
+  id UUID,
+  from_location TEXT,
+  to_location TEXT,
+  from_latitude DECIMAL,
+  from_longitude DECIMAL,
+  to_latitude DECIMAL,
+  to_longitude DECIMAL,
+  pickup_time TIMESTAMP WITH TIME ZONE,
+  vehicle_type vehicle_type,
+  distance_km DECIMAL,
+  estimated_fare DECIMAL,
+  min_price DECIMAL,
+  max_price DECIMAL,
+  driver_price DECIMAL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  customer_name TEXT
+) AS $$
+  SELECT
+    r.id,
+    r.from_location,
+    r.to_location,
+    r.from_latitude,
+    r.from_longitude,
+    r.to_latitude,
+    r.to_longitude,
+    r.pickup_time,
+    r.vehicle_type,
+    r.distance_km,
+    r.estimated_fare,
+    r.min_price,
+    r.max_price,
+    r.driver_price,
+    r.notes,
+    r.created_at,
+    p.full_name AS customer_name
+  FROM public.rides r
+  JOIN public.driver_profiles dp
+    ON dp.user_id = auth.uid()
+    AND dp.vehicle_type = r.vehicle_type
+    AND dp.is_available = true
+  LEFT JOIN public.profiles p ON p.user_id = r.customer_id
+  WHERE r.status = 'pending'
+    AND r.driver_id IS NULL
+    AND r.customer_id <> auth.uid()
+  ORDER BY r.created_at ASC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_rides() FROM anon;
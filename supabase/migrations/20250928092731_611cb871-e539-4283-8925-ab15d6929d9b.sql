@@ -0,0 +1,134 @@
+-- Masked contact model: drivers browsing pending rides see the customer's first
+-- name and a pickup area, full contact details after acceptance, and nothing
+-- once a completed ride is older than the reveal window.
+
+-- How long after completion the counterparts can still see each other's contact details
+CREATE OR REPLACE FUNCTION public.completed_contact_window()
+RETURNS INTERVAL AS $$
+  SELECT INTERVAL '24 hours';
+$$ LANGUAGE sql IMMUTABLE;
+
+DROP POLICY "Ride counterparts can view each other's profile" ON public.profiles;
+
+CREATE POLICY "Ride counterparts can view each other's profile" 
+ON public.profiles FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rides
+    WHERE (
+        rides.status IN ('accepted', 'in_progress')
+        OR (rides.status = 'completed' AND rides.completed_at > now() - public.completed_contact_window())
+      )
+      AND (
+        (rides.customer_id = profiles.user_id AND rides.driver_id = auth.uid())
+        OR (rides.driver_id = profiles.user_id AND rides.customer_id = auth.uid())
+      )
+  )
+);
+
+-- Coarse area for a point: the nearest seeded location within ~5 km, else the
+-- last part of the address (usually the locality or city).
+CREATE OR REPLACE FUNCTION public.area_name(lat DECIMAL, lng DECIMAL, address TEXT)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (
+      SELECT 'Near ' || l.name
+      FROM public.locations l
+      WHERE lat IS NOT NULL
+        AND l.latitude IS NOT NULL
+        AND power(l.latitude - lat, 2) + power((l.longitude - lng) * cos(radians(lat)), 2) < power(5 / 111.0, 2)
+      ORDER BY power(l.latitude - lat, 2) + power((l.longitude - lng) * cos(radians(lat)), 2)
+      LIMIT 1
+    ),
+    CASE WHEN position(',' IN address) > 0
+      THEN trim(regexp_replace(address, '^.*,', ''))
+    END
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Coordinates are rounded to roughly 1 km so drivers can judge the trip
+-- without learning the exact pickup point.
+DROP FUNCTION public.get_available_rides();
+
+CREATE OR REPLACE FUNCTION public.get_available_rides()
+RETURNS TABLE (
+  id UUID,
+  pickup_area TEXT,
+  dropoff_area TEXT,
+  from_latitude DECIMAL,
+  from_longitude DECIMAL,
+  to_latitude DECIMAL,
+  to_longitude DECIMAL,
+  pickup_time TIMESTAMP WITH TIME ZONE,
+  vehicle_type vehicle_type,
+  distance_km DECIMAL,
+  estimated_fare DECIMAL,
+  min_price DECIMAL,
+  max_price DECIMAL,
+  driver_price DECIMAL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  customer_first_name TEXT
+) AS $$
+  SELECT
+    r.id,
+    public.area_name(r.from_latitude, r.from_longitude, r.from_location),
+    public.area_name(r.to_latitude, r.to_longitude, r.to_location),
+    round(r.from_latitude, 2),
+    round(r.from_longitude, 2),
+    round(r.to_latitude, 2),
+    round(r.to_longitude, 2),
+    r.pickup_time,
+    r.vehicle_type,
+    r.distance_km,
+    r.estimated_fare,
+    r.min_price,
+    r.max_price,
+    r.driver_price,
+    r.notes,
+    r.created_at,
+    NULLIF(split_part(trim(p.full_name), ' ', 1), '')
+  FROM public.rides r
+  JOIN public.driver_profiles dp
+    ON dp.user_id = auth.uid()
+    AND dp.vehicle_type = r.vehicle_type
+    AND dp.is_available = true
+  LEFT JOIN public.profiles p ON p.user_id = r.customer_id
+  WHERE r.status = 'pending'
+    AND r.driver_id IS NULL
+    AND r.customer_id <> auth.uid()
+  ORDER BY r.created_at ASC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_rides() FROM anon;
+
+-- Drivers no longer read pending ride rows directly (they carry the exact
+-- addresses); the board is served by get_available_rides instead.
+DROP POLICY "Available drivers can view pending rides for their vehicle type" ON public.rides;
+
+-- Realtime for the board without row access: broadcast a minimal change event
+-- (no addresses or customer details) on a per-vehicle-type topic.
+CREATE OR REPLACE FUNCTION public.broadcast_ride_board_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM realtime.send(
+      jsonb_build_object(
+        'id', NEW.id,
+        'vehicle_type', NEW.vehicle_type,
+        'status', NEW.status,
+        'previous_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END
+      ),
+      'ride_board_change',
+      'ride-board:' || NEW.vehicle_type,
+      false
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER broadcast_ride_board_change
+AFTER INSERT OR UPDATE ON public.rides
+FOR EACH ROW
+EXECUTE FUNCTION public.broadcast_ride_board_change();
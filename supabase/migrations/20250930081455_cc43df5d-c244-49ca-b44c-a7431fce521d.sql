@@ -0,0 +1,92 @@
+-- Live driver location: drivers report their position while available or on a
+-- trip, and the customer follows the assigned driver from their ride card.
+
+ALTER TABLE public.driver_profiles
+ADD COLUMN location_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- This exposed every available driver's live position to any signed-in user.
+-- Nothing reads other drivers' profiles from the client; matching happens server side.
+DROP POLICY "Customers can view available drivers" ON public.driver_profiles;
+
+-- Position history for a ride, from acceptance until it ends
+CREATE TABLE public.ride_locations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  accuracy_m DECIMAL(8, 2),
+  heading_deg DECIMAL(5, 2),
+  speed_kmph DECIMAL(6, 2),
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ride_locations_ride_recorded ON public.ride_locations(ride_id, recorded_at DESC);
+
+ALTER TABLE public.ride_locations ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written through report_driver_location()
+CREATE POLICY "Ride participants can view the driver's locations" 
+ON public.ride_locations FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rides
+    WHERE rides.id = ride_locations.ride_id
+      AND (rides.customer_id = auth.uid() OR rides.driver_id = auth.uid())
+  )
+);
+
+ALTER TABLE public.ride_locations REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_locations;
+
+-- Records the caller's position on their driver profile and, for each ride they
+-- are serving, appends it to the ride's history. History is bounded: points
+-- closer than 5 seconds apart are dropped and only the latest 500 are kept.
+CREATE OR REPLACE FUNCTION public.report_driver_location(
+  lat DECIMAL,
+  lng DECIMAL,
+  accuracy DECIMAL DEFAULT NULL,
+  heading DECIMAL DEFAULT NULL,
+  speed DECIMAL DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  active_ride_id UUID;
+BEGIN
+  IF lat IS NULL OR lng IS NULL OR abs(lat) > 90 OR abs(lng) > 180 THEN
+    RAISE EXCEPTION 'Invalid coordinates';
+  END IF;
+
+  UPDATE public.driver_profiles
+  SET current_latitude = lat,
+      current_longitude = lng,
+      location_updated_at = now()
+  WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Driver profile not found';
+  END IF;
+
+  FOR active_ride_id IN
+    SELECT id FROM public.rides
+    WHERE driver_id = auth.uid() AND status IN ('accepted', 'in_progress')
+  LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.ride_locations
+      WHERE ride_id = active_ride_id AND recorded_at > now() - INTERVAL '5 seconds'
+    );
+
+    INSERT INTO public.ride_locations (ride_id, driver_id, latitude, longitude, accuracy_m, heading_deg, speed_kmph)
+    VALUES (active_ride_id, auth.uid(), lat, lng, accuracy, heading, speed);
+
+    DELETE FROM public.ride_locations
+    WHERE ride_id = active_ride_id
+      AND id NOT IN (
+        SELECT id FROM public.ride_locations
+        WHERE ride_id = active_ride_id
+        ORDER BY recorded_at DESC
+        LIMIT 500
+      );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
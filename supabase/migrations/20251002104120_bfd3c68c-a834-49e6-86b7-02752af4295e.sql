@@ -0,0 +1,171 @@
+-- Nearest-driver dispatch. A new ride is offered to the closest available
+-- drivers in waves (see supabase/functions/_shared/dispatch.ts); only when the
+-- waves run out does it appear on every matching driver's open board.
+
+CREATE TYPE public.ride_offer_status AS ENUM ('offered', 'accepted', 'expired');
+
+ALTER TABLE public.rides
+ADD COLUMN dispatch_wave INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN dispatch_wave_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN opened_to_board_at TIMESTAMP WITH TIME ZONE;
+
+-- Rides already waiting keep their place on the open board
+UPDATE public.rides SET opened_to_board_at = now() WHERE status = 'pending';
+
+CREATE TABLE public.ride_offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  wave INTEGER NOT NULL,
+  distance_km DECIMAL(8, 2) NOT NULL,
+  status public.ride_offer_status NOT NULL DEFAULT 'offered',
+  offered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(ride_id, driver_id)
+);
+
+CREATE INDEX idx_ride_offers_driver_status ON public.ride_offers(driver_id, status);
+
+ALTER TABLE public.ride_offers ENABLE ROW LEVEL SECURITY;
+
+-- Offers are written by the dispatcher and accept-ride only
+CREATE POLICY "Drivers can view their own offers" 
+ON public.ride_offers FOR SELECT 
+USING (auth.uid() = driver_id);
+
+-- The board now holds rides opened to everyone plus rides currently offered
+-- to the caller, offers first.
+DROP FUNCTION public.get_available_rides();
+
+CREATE OR REPLACE FUNCTION public.get_available_rides()
+RETURNS TABLE (
+  id UUID,
+  pickup_area TEXT,
+  dropoff_area TEXT,
+  from_latitude DECIMAL,
+  from_longitude DECIMAL,
+  to_latitude DECIMAL,
+  to_longitude DECIMAL,
+  pickup_time TIMESTAMP WITH TIME ZONE,
+  vehicle_type vehicle_type,
+  distance_km DECIMAL,
+  estimated_fare DECIMAL,
+  min_price DECIMAL,
+  max_price DECIMAL,
+  driver_price DECIMAL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  customer_first_name TEXT,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  offer_distance_km DECIMAL
+) AS $$
+  SELECT
+    r.id,
+    public.area_name(r.from_latitude, r.from_longitude, r.from_location),
+    public.area_name(r.to_latitude, r.to_longitude, r.to_location),
+    round(r.from_latitude, 2),
+    round(r.from_longitude, 2),
+    round(r.to_latitude, 2),
+    round(r.to_longitude, 2),
+    r.pickup_time,
+    r.vehicle_type,
+    r.distance_km,
+    r.estimated_fare,
+    r.min_price,
+    r.max_price,
+    r.driver_price,
+    r.notes,
+    r.created_at,
+    NULLIF(split_part(trim(p.full_name), ' ', 1), ''),
+    o.expires_at,
+    o.distance_km
+  FROM public.rides r
+  JOIN public.driver_profiles dp
+    ON dp.user_id = auth.uid()
+    AND dp.vehicle_type = r.vehicle_type
+    AND dp.is_available = true
+  LEFT JOIN public.profiles p ON p.user_id = r.customer_id
+  LEFT JOIN public.ride_offers o
+    ON o.ride_id = r.id
+    AND o.driver_id = auth.uid()
+    AND o.status = 'offered'
+    AND o.expires_at > now()
+  WHERE r.status = 'pending'
+    AND r.driver_id IS NULL
+    AND r.customer_id <> auth.uid()
+    AND (r.opened_to_board_at IS NOT NULL OR o.id IS NOT NULL)
+  ORDER BY o.id IS NULL, r.created_at ASC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_rides() FROM anon;
+
+-- Board events now also fire when a ride is opened to the board, and say
+-- whether the ride is on the open board at all.
+CREATE OR REPLACE FUNCTION public.broadcast_ride_board_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.opened_to_board_at IS DISTINCT FROM OLD.opened_to_board_at THEN
+    PERFORM realtime.send(
+      jsonb_build_object(
+        'id', NEW.id,
+        'vehicle_type', NEW.vehicle_type,
+        'status', NEW.status,
+        'previous_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+        'on_board', NEW.opened_to_board_at IS NOT NULL
+      ),
+      'ride_board_change',
+      'ride-board:' || NEW.vehicle_type,
+      false
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Targeted offers are announced on the driver's own topic
+CREATE OR REPLACE FUNCTION public.broadcast_ride_offer()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object(
+      'id', NEW.id,
+      'ride_id', NEW.ride_id,
+      'status', NEW.status,
+      'distance_km', NEW.distance_km,
+      'expires_at', NEW.expires_at
+    ),
+    'ride_offer',
+    'ride-offers:' || NEW.driver_id,
+    false
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER broadcast_ride_offer
+AFTER INSERT ON public.ride_offers
+FOR EACH ROW
+EXECUTE FUNCTION public.broadcast_ride_offer();
+
+-- Advance waves every 30 seconds. Expects the project URL and service role key
+-- in Vault as 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'dispatch-rides',
+  '30 seconds',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/dispatch-rides',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,3 @@
+-- Drivers can now turn down an offer. Added on its own because a new enum
+-- value cannot be used in the transaction that adds it.
+ALTER TYPE public.ride_offer_status ADD VALUE 'declined';
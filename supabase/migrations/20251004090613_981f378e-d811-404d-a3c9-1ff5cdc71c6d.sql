@@ -0,0 +1,142 @@
+-- Declines and acceptance stats. A driver can decline a targeted offer or a
+-- ride on the open board; either way the ride is never shown to them again.
+-- Board declines are stored as wave 0 rows without a distance or window.
+
+ALTER TABLE public.ride_offers
+ALTER COLUMN distance_km DROP NOT NULL,
+ALTER COLUMN expires_at DROP NOT NULL,
+ADD COLUMN decline_reason TEXT,
+ADD COLUMN decline_note TEXT;
+
+-- Per-driver response counters for targeted offers, kept by trigger.
+-- Dispatch ranks drivers within a distance band by rating, then acceptance rate.
+CREATE TABLE public.driver_offer_stats (
+  driver_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  offers_received INTEGER NOT NULL DEFAULT 0,
+  offers_accepted INTEGER NOT NULL DEFAULT 0,
+  offers_declined INTEGER NOT NULL DEFAULT 0,
+  offers_expired INTEGER NOT NULL DEFAULT 0,
+  acceptance_rate DECIMAL(5, 4) GENERATED ALWAYS AS (
+    CASE WHEN offers_received > 0 THEN offers_accepted::DECIMAL / offers_received END
+  ) STORED,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.driver_offer_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Drivers can view their own offer stats" 
+ON public.driver_offer_stats FOR SELECT 
+USING (auth.uid() = driver_id);
+
+CREATE OR REPLACE FUNCTION public.record_ride_offer_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Board declines (wave 0) were never offered, so they do not count
+  IF NEW.wave = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.driver_offer_stats (driver_id, offers_received)
+    VALUES (NEW.driver_id, 1)
+    ON CONFLICT (driver_id) DO UPDATE
+    SET offers_received = driver_offer_stats.offers_received + 1,
+        updated_at = now();
+  ELSIF OLD.status = 'offered' AND NEW.status <> 'offered' THEN
+    UPDATE public.driver_offer_stats
+    SET offers_accepted = offers_accepted + (NEW.status = 'accepted')::INTEGER,
+        offers_declined = offers_declined + (NEW.status = 'declined')::INTEGER,
+        offers_expired = offers_expired + (NEW.status = 'expired')::INTEGER,
+        updated_at = now()
+    WHERE driver_id = NEW.driver_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_ride_offer_stats
+AFTER INSERT OR UPDATE OF status ON public.ride_offers
+FOR EACH ROW
+EXECUTE FUNCTION public.record_ride_offer_stats();
+
+-- Offers sent before this migration
+INSERT INTO public.driver_offer_stats (driver_id, offers_received, offers_accepted, offers_expired)
+SELECT
+  driver_id,
+  count(*),
+  count(*) FILTER (WHERE status = 'accepted'),
+  count(*) FILTER (WHERE status = 'expired')
+FROM public.ride_offers
+GROUP BY driver_id;
+
+-- Hide rides the caller has declined
+DROP FUNCTION public.get_available_rides();
+
+CREATE OR REPLACE FUNCTION public.get_available_rides()
+RETURNS TABLE (
+  id UUID,
+  pickup_area TEXT,
+  dropoff_area TEXT,
+  from_latitude DECIMAL,
+  from_longitude DECIMAL,
+  to_latitude DECIMAL,
+  to_longitude DECIMAL,
+  pickup_time TIMESTAMP WITH TIME ZONE,
+  vehicle_type vehicle_type,
+  distance_km DECIMAL,
+  estimated_fare DECIMAL,
+  min_price DECIMAL,
+  max_price DECIMAL,
+  driver_price DECIMAL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  customer_first_name TEXT,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  offer_distance_km DECIMAL
+) AS $$
+  SELECT
+    r.id,
+    public.area_name(r.from_latitude, r.from_longitude, r.from_location),
+    public.area_name(r.to_latitude, r.to_longitude, r.to_location),
+    round(r.from_latitude, 2),
+    round(r.from_longitude, 2),
+    round(r.to_latitude, 2),
+    round(r.to_longitude, 2),
+    r.pickup_time,
+    r.vehicle_type,
+    r.distance_km,
+    r.estimated_fare,
+    r.min_price,
+    r.max_price,
+    r.driver_price,
+    r.notes,
+    r.created_at,
+    NULLIF(split_part(trim(p.full_name), ' ', 1), ''),
+    o.expires_at,
+    o.distance_km
+  FROM public.rides r
+  JOIN public.driver_profiles dp
+    ON dp.user_id = auth.uid()
+    AND dp.vehicle_type = r.vehicle_type
+    AND dp.is_available = true
+  LEFT JOIN public.profiles p ON p.user_id = r.customer_id
+  LEFT JOIN public.ride_offers o
+    ON o.ride_id = r.id
+    AND o.driver_id = auth.uid()
+    AND o.status = 'offered'
+    AND o.expires_at > now()
+  WHERE r.status = 'pending'
+    AND r.driver_id IS NULL
+    AND r.customer_id <> auth.uid()
+    AND (r.opened_to_board_at IS NOT NULL OR o.id IS NOT NULL)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.ride_offers d
+      WHERE d.ride_id = r.id
+        AND d.driver_id = auth.uid()
+        AND d.status = 'declined'
+    )
+  ORDER BY o.id IS NULL, r.created_at ASC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_rides() FROM anon;
@@ -0,0 +1,147 @@
+-- Counter-offers. Drivers bid on a pending ride within the customer's price
+-- range; the customer picks one and that driver is assigned at the bid amount
+-- (accept-ride-bid), which becomes the ride's driver_price.
+
+CREATE TYPE public.ride_bid_status AS ENUM ('open', 'accepted', 'rejected');
+
+CREATE TABLE public.ride_bids (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  -- Copied from the ride so the customer can subscribe to all their bids
+  customer_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0),
+  status public.ride_bid_status NOT NULL DEFAULT 'open',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(ride_id, driver_id)
+);
+
+CREATE INDEX idx_ride_bids_ride_status ON public.ride_bids(ride_id, status);
+
+ALTER TABLE public.ride_bids ENABLE ROW LEVEL SECURITY;
+
+-- Bids are written by submit-ride-bid and accept-ride-bid only
+CREATE POLICY "Drivers can view their own bids" 
+ON public.ride_bids FOR SELECT 
+USING (auth.uid() = driver_id);
+
+CREATE POLICY "Customers can view bids on their rides" 
+ON public.ride_bids FOR SELECT 
+USING (auth.uid() = customer_id);
+
+CREATE TRIGGER update_ride_bids_updated_at
+BEFORE UPDATE ON public.ride_bids
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ride_bids REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_bids;
+
+-- Open bids on one of the caller's rides, cheapest first. Drivers are
+-- identified by first name only until the customer picks one.
+CREATE OR REPLACE FUNCTION public.get_ride_bids(p_ride_id UUID)
+RETURNS TABLE (
+  id UUID,
+  ride_id UUID,
+  amount DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  driver_first_name TEXT,
+  acceptance_rate DECIMAL
+) AS $$
+  SELECT
+    b.id,
+    b.ride_id,
+    b.amount,
+    b.created_at,
+    b.updated_at,
+    NULLIF(split_part(trim(p.full_name), ' ', 1), ''),
+    s.acceptance_rate
+  FROM public.ride_bids b
+  LEFT JOIN public.profiles p ON p.user_id = b.driver_id
+  LEFT JOIN public.driver_offer_stats s ON s.driver_id = b.driver_id
+  WHERE b.ride_id = p_ride_id
+    AND b.customer_id = auth.uid()
+    AND b.status = 'open'
+  ORDER BY b.amount ASC, b.created_at ASC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_ride_bids(UUID) FROM anon;
+
+-- The board also returns the caller's open bid on each ride
+DROP FUNCTION public.get_available_rides();
+
+CREATE OR REPLACE FUNCTION public.get_available_rides()
+RETURNS TABLE (
+  id UUID,
+  pickup_area TEXT,
+  dropoff_area TEXT,
+  from_latitude DECIMAL,
+  from_longitude DECIMAL,
+  to_latitude DECIMAL,
+  to_longitude DECIMAL,
+  pickup_time TIMESTAMP WITH TIME ZONE,
+  vehicle_type vehicle_type,
+  distance_km DECIMAL,
+  estimated_fare DECIMAL,
+  min_price DECIMAL,
+  max_price DECIMAL,
+  driver_price DECIMAL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  customer_first_name TEXT,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  offer_distance_km DECIMAL,
+  my_bid_amount DECIMAL
+) AS $$
+  SELECT
+    r.id,
+    public.area_name(r.from_latitude, r.from_longitude, r.from_location),
+    public.area_name(r.to_latitude, r.to_longitude, r.to_location),
+    round(r.from_latitude, 2),
+    round(r.from_longitude, 2),
+    round(r.to_latitude, 2),
+    round(r.to_longitude, 2),
+    r.pickup_time,
+    r.vehicle_type,
+    r.distance_km,
+    r.estimated_fare,
+    r.min_price,
+    r.max_price,
+    r.driver_price,
+    r.notes,
+    r.created_at,
+    NULLIF(split_part(trim(p.full_name), ' ', 1), ''),
+    o.expires_at,
+    o.distance_km,
+    b.amount
+  FROM public.rides r
+  JOIN public.driver_profiles dp
+    ON dp.user_id = auth.uid()
+    AND dp.vehicle_type = r.vehicle_type
+    AND dp.is_available = true
+  LEFT JOIN public.profiles p ON p.user_id = r.customer_id
+  LEFT JOIN public.ride_offers o
+    ON o.ride_id = r.id
+    AND o.driver_id = auth.uid()
+    AND o.status = 'offered'
+    AND o.expires_at > now()
+  LEFT JOIN public.ride_bids b
+    ON b.ride_id = r.id
+    AND b.driver_id = auth.uid()
+    AND b.status = 'open'
+  WHERE r.status = 'pending'
+    AND r.driver_id IS NULL
+    AND r.customer_id <> auth.uid()
+    AND (r.opened_to_board_at IS NOT NULL OR o.id IS NOT NULL)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.ride_offers d
+      WHERE d.ride_id = r.id
+        AND d.driver_id = auth.uid()
+        AND d.status = 'declined'
+    )
+  ORDER BY o.id IS NULL, r.created_at ASC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_rides() FROM anon;
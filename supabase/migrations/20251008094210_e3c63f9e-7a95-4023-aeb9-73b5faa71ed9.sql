@@ -0,0 +1,4 @@
+-- Rides booked well ahead are held as 'scheduled' until shortly before pickup.
+-- Added on its own because a new enum value cannot be used in the transaction
+-- that adds it.
+ALTER TYPE public.ride_status ADD VALUE 'scheduled' BEFORE 'pending';
@@ -0,0 +1,108 @@
+-- Scheduled rides. A ride whose pickup is further out than the release lead
+-- time is created as 'scheduled' and kept off the board; the
+-- release-scheduled-rides job moves it to 'pending' and dispatches it when the
+-- lead time is reached, and reminds both parties before pickup.
+
+-- Operational settings read by the edge functions and shown in the app
+CREATE TABLE public.app_settings (
+  key TEXT NOT NULL PRIMARY KEY,
+  value JSONB NOT NULL,
+  description TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "App settings are viewable by everyone" 
+ON public.app_settings FOR SELECT 
+USING (true);
+
+CREATE TRIGGER update_app_settings_updated_at
+BEFORE UPDATE ON public.app_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('scheduled_release_lead_minutes', '30', 'Scheduled rides are released to drivers this many minutes before pickup'),
+  ('scheduled_reminder_lead_minutes', '15', 'Customer and driver are reminded of a scheduled ride this many minutes before pickup');
+
+ALTER TABLE public.rides
+ADD COLUMN is_scheduled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN released_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN reminder_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_rides_scheduled_pickup ON public.rides(pickup_time) WHERE status = 'scheduled';
+
+-- Allow scheduled -> pending (release) and scheduled -> cancelled
+CREATE OR REPLACE FUNCTION public.enforce_ride_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'scheduled' AND NEW.status IN ('pending', 'cancelled'))
+      OR (OLD.status = 'pending' AND NEW.status IN ('accepted', 'cancelled'))
+      OR (OLD.status = 'accepted' AND NEW.status IN ('in_progress', 'cancelled', 'pending'))
+      OR (OLD.status = 'in_progress' AND NEW.status = 'completed')
+    ) THEN
+      RAISE EXCEPTION 'Invalid ride status transition from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status IN ('accepted', 'in_progress', 'completed') AND NEW.driver_id IS NULL THEN
+      RAISE EXCEPTION 'A ride must have a driver to be %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'pending' AND NEW.driver_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A ride returned to the pool cannot keep its driver'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'completed' AND NEW.final_fare IS NULL THEN
+      RAISE EXCEPTION 'A final fare is required to complete a ride'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    CASE NEW.status
+      WHEN 'pending' THEN
+        NEW.accepted_at = NULL;
+        IF OLD.status = 'scheduled' THEN NEW.released_at = now(); END IF;
+      WHEN 'accepted' THEN NEW.accepted_at = now();
+      WHEN 'in_progress' THEN NEW.started_at = now();
+      WHEN 'completed' THEN NEW.completed_at = now();
+      WHEN 'cancelled' THEN NEW.cancelled_at = now();
+      ELSE NULL;
+    END CASE;
+  END IF;
+
+  -- The fare is only settled as part of completing the ride
+  IF NEW.final_fare IS DISTINCT FROM OLD.final_fare AND NEW.status <> 'completed' THEN
+    RAISE EXCEPTION 'The final fare can only be set when completing a ride'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status IN ('completed', 'cancelled') AND NEW.status = OLD.status
+    AND (NEW.final_fare IS DISTINCT FROM OLD.final_fare OR NEW.driver_id IS DISTINCT FROM OLD.driver_id) THEN
+    RAISE EXCEPTION 'A % ride can no longer be changed', OLD.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Release and remind every minute. Uses the same Vault secrets as dispatch-rides.
+SELECT cron.schedule(
+  'release-scheduled-rides',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/release-scheduled-rides',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,3 @@
+-- Pending rides nobody accepted before pickup now end as 'expired'. Added on
+-- its own because a new enum value cannot be used in the transaction that adds it.
+ALTER TYPE public.ride_status ADD VALUE 'expired';
@@ -0,0 +1,38 @@
+-- Ratings. After a ride is completed the customer and the driver can each rate
+-- the other once (1-5 stars, optional tags and comment) through rate-ride.
+
+CREATE TABLE public.ride_ratings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  rater_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  ratee_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  -- Role of the person being rated
+  ratee_role TEXT NOT NULL CHECK (ratee_role IN ('customer', 'driver')),
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  comment TEXT CHECK (char_length(comment) <= 500),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(ride_id, rater_id)
+);
+
+CREATE INDEX idx_ride_ratings_ratee ON public.ride_ratings(ratee_id, ratee_role);
+
+ALTER TABLE public.ride_ratings ENABLE ROW LEVEL SECURITY;
+
+-- Ratings are written by rate-ride only
+CREATE POLICY "Users can view ratings they gave or received" 
+ON public.ride_ratings FOR SELECT 
+USING (auth.uid() = rater_id OR auth.uid() = ratee_id);
+
+-- Aggregates only, so anyone can see a driver's or customer's standing
+-- without reading individual reviews.
+CREATE VIEW public.user_rating_summary AS
+SELECT
+  ratee_id AS user_id,
+  ratee_role AS role,
+  count(*)::INTEGER AS rating_count,
+  round(avg(rating), 2) AS average_rating
+FROM public.ride_ratings
+GROUP BY ratee_id, ratee_role;
+
+GRANT SELECT ON public.user_rating_summary TO authenticated;
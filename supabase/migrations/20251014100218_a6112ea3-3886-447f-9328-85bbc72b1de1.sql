@@ -0,0 +1,48 @@
+-- Trip receipts. A customer's completed ride with the driver's name and
+-- vehicle, which stay on the receipt after the contact window closes (the
+-- driver's phone does not).
+CREATE OR REPLACE FUNCTION public.get_ride_receipt(p_ride_id UUID)
+RETURNS TABLE (
+  id UUID,
+  from_location TEXT,
+  to_location TEXT,
+  pickup_time TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  vehicle_type vehicle_type,
+  distance_km DECIMAL,
+  estimated_fare DECIMAL,
+  final_fare DECIMAL,
+  fare_breakdown JSONB,
+  customer_name TEXT,
+  driver_name TEXT,
+  vehicle_number TEXT
+) AS $$
+  SELECT
+    r.id,
+    r.from_location,
+    r.to_location,
+    r.pickup_time,
+    r.started_at,
+    r.completed_at,
+    r.vehicle_type,
+    r.distance_km,
+    r.estimated_fare,
+    r.final_fare,
+    r.fare_breakdown,
+    c.full_name,
+    d.full_name,
+    dp.vehicle_number
+  FROM public.rides r
+  LEFT JOIN public.profiles c ON c.user_id = r.customer_id
+  LEFT JOIN public.profiles d ON d.user_id = r.driver_id
+  LEFT JOIN public.driver_profiles dp ON dp.user_id = r.driver_id
+  WHERE r.id = p_ride_id
+    AND r.customer_id = auth.uid()
+    AND r.status = 'completed';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_ride_receipt(UUID) FROM anon;
+
+-- Ride history pages are filtered by customer and pickup time
+CREATE INDEX IF NOT EXISTS idx_rides_customer_pickup ON public.rides(customer_id, pickup_time DESC);
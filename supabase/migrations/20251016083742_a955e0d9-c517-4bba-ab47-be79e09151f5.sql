@@ -0,0 +1,36 @@
+-- Driver earnings. Completed trips grouped into day, week or month buckets
+-- in the driver's local time, for the earnings dashboard.
+CREATE OR REPLACE FUNCTION public.get_driver_earnings(
+  p_period TEXT,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_utc_offset_minutes INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  period_start DATE,
+  trips INTEGER,
+  earnings DECIMAL,
+  distance_km DECIMAL
+) AS $$
+BEGIN
+  IF p_period NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Invalid earnings period: %', p_period;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_trunc(p_period, (r.completed_at AT TIME ZONE 'UTC') + make_interval(mins => p_utc_offset_minutes))::DATE,
+    COUNT(*)::INTEGER,
+    COALESCE(SUM(r.final_fare), 0),
+    COALESCE(SUM(r.distance_km), 0)
+  FROM public.rides r
+  WHERE r.driver_id = auth.uid()
+    AND r.status = 'completed'
+    AND r.completed_at >= p_from
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_driver_earnings(TEXT, TIMESTAMP WITH TIME ZONE, INTEGER) FROM anon;
+
+CREATE INDEX IF NOT EXISTS idx_rides_driver_completed ON public.rides(driver_id, completed_at DESC);
@@ -0,0 +1,3 @@
+-- Operations staff. Added on its own so the value is committed before the
+-- admin policies and functions in the next migration use it.
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'admin';
@@ -0,0 +1,96 @@
+-- Admin role and operations console. Admin rights come from the `role` claim
+-- in app_metadata, which only the service role can set, so a user editing
+-- their own profile cannot grant themselves access. Grant it with
+-- `SELECT public.grant_admin('<user id>')` from the SQL editor; the claim
+-- reaches the user's token the next time they sign in.
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.grant_admin(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE auth.users
+  SET raw_app_meta_data = COALESCE(raw_app_meta_data, '{}'::jsonb) || '{"role": "admin"}'::jsonb
+  WHERE id = p_user_id;
+
+  UPDATE public.profiles
+  SET user_type = 'admin'
+  WHERE user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.grant_admin(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Users can update their own profile, but not into or out of the admin role
+CREATE OR REPLACE FUNCTION public.protect_admin_user_type()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_type IS DISTINCT FROM OLD.user_type
+    AND 'admin' IN (NEW.user_type, OLD.user_type)
+    AND auth.uid() IS NOT NULL
+    AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change the admin role';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_admin_user_type
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.protect_admin_user_type();
+
+-- Suspension. Suspended users are also banned in auth so they cannot sign in.
+ALTER TABLE public.profiles
+  ADD COLUMN suspended_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN suspension_reason TEXT;
+
+-- Admin cancellations are logged alongside customer and driver ones
+ALTER TABLE public.ride_cancellations
+  DROP CONSTRAINT ride_cancellations_cancelled_by_role_check,
+  ADD CONSTRAINT ride_cancellations_cancelled_by_role_check
+    CHECK (cancelled_by_role IN ('customer', 'driver', 'admin'));
+
+-- Every admin action, with what it changed
+CREATE TABLE public.admin_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  admin_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('ride', 'user')),
+  target_id UUID NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_admin_audit_log_created ON public.admin_audit_log(created_at DESC);
+CREATE INDEX idx_admin_audit_log_target ON public.admin_audit_log(target_type, target_id);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Written by the admin-actions function only
+CREATE POLICY "Admins can view the audit log" 
+ON public.admin_audit_log FOR SELECT 
+USING (public.is_admin());
+
+-- Read access for the console
+CREATE POLICY "Admins can view all rides" 
+ON public.rides FOR SELECT 
+USING (public.is_admin());
+
+CREATE POLICY "Admins can view all profiles" 
+ON public.profiles FOR SELECT 
+USING (public.is_admin());
+
+CREATE POLICY "Admins can view all driver profiles" 
+ON public.driver_profiles FOR SELECT 
+USING (public.is_admin());
+
+CREATE POLICY "Admins can view all offer stats" 
+ON public.driver_offer_stats FOR SELECT 
+USING (public.is_admin());
+
+CREATE POLICY "Admins can view all cancellations" 
+ON public.ride_cancellations FOR SELECT 
+USING (public.is_admin());
@@ -0,0 +1,14 @@
+-- The profiles UPDATE policy covers every column, so a customer could make
+-- themselves a driver (or the reverse) by editing their own row. The role is
+-- fixed at signup; only admins, or the service role, may change it.
+CREATE OR REPLACE FUNCTION public.protect_admin_user_type()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_type IS DISTINCT FROM OLD.user_type
+    AND auth.uid() IS NOT NULL
+    AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change a user''s role';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
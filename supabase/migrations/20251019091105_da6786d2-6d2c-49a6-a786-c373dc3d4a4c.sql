@@ -0,0 +1,15 @@
+-- A ride's location trail was readable by its customer for good once the ride
+-- ended, so they could keep tracing where the driver went. Only show it while
+-- the driver is actually serving the ride.
+DROP POLICY "Ride participants can view the driver's locations" ON public.ride_locations;
+
+CREATE POLICY "Ride participants can view the driver's locations" 
+ON public.ride_locations FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rides
+    WHERE rides.id = ride_locations.ride_id
+      AND rides.status IN ('accepted', 'in_progress')
+      AND (rides.customer_id = auth.uid() OR rides.driver_id = auth.uid())
+  )
+);
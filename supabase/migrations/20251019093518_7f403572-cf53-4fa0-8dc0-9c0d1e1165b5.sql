@@ -0,0 +1,64 @@
+-- A scheduled ride that was never released (for example while the release
+-- job was down) stayed scheduled forever once its pickup time passed. Allow
+-- scheduled -> expired so expire-stale-rides can end it like a pending one.
+CREATE OR REPLACE FUNCTION public.enforce_ride_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'scheduled' AND NEW.status IN ('pending', 'cancelled', 'expired'))
+      OR (OLD.status = 'pending' AND NEW.status IN ('accepted', 'cancelled', 'expired'))
+      OR (OLD.status = 'accepted' AND NEW.status IN ('in_progress', 'cancelled', 'pending'))
+      OR (OLD.status = 'in_progress' AND NEW.status = 'completed')
+    ) THEN
+      RAISE EXCEPTION 'Invalid ride status transition from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status IN ('accepted', 'in_progress', 'completed') AND NEW.driver_id IS NULL THEN
+      RAISE EXCEPTION 'A ride must have a driver to be %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'pending' AND NEW.driver_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A ride returned to the pool cannot keep its driver'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'completed' AND NEW.final_fare IS NULL THEN
+      RAISE EXCEPTION 'A final fare is required to complete a ride'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    CASE NEW.status
+      WHEN 'pending' THEN
+        NEW.accepted_at = NULL;
+        IF OLD.status = 'scheduled' THEN NEW.released_at = now(); END IF;
+      WHEN 'accepted' THEN NEW.accepted_at = now();
+      WHEN 'in_progress' THEN NEW.started_at = now();
+      WHEN 'completed' THEN NEW.completed_at = now();
+      WHEN 'cancelled' THEN NEW.cancelled_at = now();
+      WHEN 'expired' THEN NEW.expired_at = now();
+      ELSE NULL;
+    END CASE;
+  END IF;
+
+  -- The fare is only settled as part of completing the ride
+  IF NEW.final_fare IS DISTINCT FROM OLD.final_fare AND NEW.status <> 'completed' THEN
+    RAISE EXCEPTION 'The final fare can only be set when completing a ride'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status IN ('completed', 'cancelled', 'expired') AND NEW.status = OLD.status
+    AND (NEW.final_fare IS DISTINCT FROM OLD.final_fare OR NEW.driver_id IS DISTINCT FROM OLD.driver_id) THEN
+    RAISE EXCEPTION 'A % ride can no longer be changed', OLD.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+UPDATE public.app_settings
+SET description = 'Pending and unreleased scheduled rides expire this many minutes after their pickup time if no driver accepted them'
+WHERE key = 'pending_expiry_grace_minutes';
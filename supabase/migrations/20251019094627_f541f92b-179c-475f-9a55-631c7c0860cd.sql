@@ -0,0 +1,122 @@
+-- Suspension is for admins to set, and a suspended driver stays off the
+-- board and out of dispatch until reinstated.
+
+-- Users can update their own profile, but not their suspension
+CREATE OR REPLACE FUNCTION public.protect_suspension()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+      OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason)
+    AND auth.uid() IS NOT NULL
+    AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change a user''s suspension';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_suspension
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.protect_suspension();
+
+-- A suspended driver cannot mark themselves available again
+CREATE OR REPLACE FUNCTION public.keep_suspended_driver_unavailable()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_available AND EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.user_id = NEW.user_id
+      AND profiles.suspended_at IS NOT NULL
+  ) THEN
+    NEW.is_available := false;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER keep_suspended_driver_unavailable
+BEFORE INSERT OR UPDATE ON public.driver_profiles
+FOR EACH ROW EXECUTE FUNCTION public.keep_suspended_driver_unavailable();
+
+UPDATE public.driver_profiles
+SET is_available = false
+WHERE is_available
+  AND user_id IN (SELECT user_id FROM public.profiles WHERE suspended_at IS NOT NULL);
+
+-- Board rides are hidden from suspended drivers
+CREATE OR REPLACE FUNCTION public.get_available_rides()
+RETURNS TABLE (
+  id UUID,
+  pickup_area TEXT,
+  dropoff_area TEXT,
+  from_latitude DECIMAL,
+  from_longitude DECIMAL,
+  to_latitude DECIMAL,
+  to_longitude DECIMAL,
+  pickup_time TIMESTAMP WITH TIME ZONE,
+  vehicle_type vehicle_type,
+  distance_km DECIMAL,
+  estimated_fare DECIMAL,
+  min_price DECIMAL,
+  max_price DECIMAL,
+  driver_price DECIMAL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  customer_first_name TEXT,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  offer_distance_km DECIMAL,
+  my_bid_amount DECIMAL
+) AS $$
+  SELECT
+    r.id,
+    public.area_name(r.from_latitude, r.from_longitude, r.from_location),
+    public.area_name(r.to_latitude, r.to_longitude, r.to_location),
+    round(r.from_latitude, 2),
+    round(r.from_longitude, 2),
+    round(r.to_latitude, 2),
+    round(r.to_longitude, 2),
+    r.pickup_time,
+    r.vehicle_type,
+    r.distance_km,
+    r.estimated_fare,
+    r.min_price,
+    r.max_price,
+    r.driver_price,
+    r.notes,
+    r.created_at,
+    NULLIF(split_part(trim(p.full_name), ' ', 1), ''),
+    o.expires_at,
+    o.distance_km,
+    b.amount
+  FROM public.rides r
+  JOIN public.driver_profiles dp
+    ON dp.user_id = auth.uid()
+    AND dp.vehicle_type = r.vehicle_type
+    AND dp.is_available = true
+  JOIN public.profiles me
+    ON me.user_id = auth.uid()
+    AND me.suspended_at IS NULL
+  LEFT JOIN public.profiles p ON p.user_id = r.customer_id
+  LEFT JOIN public.ride_offers o
+    ON o.ride_id = r.id
+    AND o.driver_id = auth.uid()
+    AND o.status = 'offered'
+    AND o.expires_at > now()
+  LEFT JOIN public.ride_bids b
+    ON b.ride_id = r.id
+    AND b.driver_id = auth.uid()
+    AND b.status = 'open'
+  WHERE r.status = 'pending'
+    AND r.driver_id IS NULL
+    AND r.customer_id <> auth.uid()
+    AND (r.opened_to_board_at IS NOT NULL OR o.id IS NOT NULL)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.ride_offers d
+      WHERE d.ride_id = r.id
+        AND d.driver_id = auth.uid()
+        AND d.status = 'declined'
+    )
+  ORDER BY o.id IS NULL, r.created_at ASC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_rides() FROM anon;
@@ -0,0 +1,4 @@
+-- Rides are created only by the create-ride function, which validates the
+-- prices and the customer's account. A direct insert could skip the status
+-- state machine with any status, driver or fare.
+DROP POLICY "Customers can create rides" ON public.rides;
@@ -0,0 +1,28 @@
+-- Offers carry pickup details meant for one driver only, so they go out on a
+-- private topic that only that driver may join.
+CREATE OR REPLACE FUNCTION public.broadcast_ride_offer()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object(
+      'id', NEW.id,
+      'ride_id', NEW.ride_id,
+      'status', NEW.status,
+      'distance_km', NEW.distance_km,
+      'expires_at', NEW.expires_at
+    ),
+    'ride_offer',
+    'ride-offers:' || NEW.driver_id,
+    true
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Drivers can receive their own ride offers" 
+ON realtime.messages FOR SELECT 
+TO authenticated
+USING (
+  realtime.messages.extension = 'broadcast'
+  AND realtime.topic() = 'ride-offers:' || auth.uid()::text
+);
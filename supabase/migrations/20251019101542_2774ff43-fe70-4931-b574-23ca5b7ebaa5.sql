@@ -0,0 +1,40 @@
+-- Earnings buckets follow the driver's named time zone rather than a fixed
+-- UTC offset, so day boundaries stay put across a daylight saving change.
+DROP FUNCTION public.get_driver_earnings(TEXT, TIMESTAMP WITH TIME ZONE, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_driver_earnings(
+  p_period TEXT,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_tz TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  period_start DATE,
+  trips INTEGER,
+  earnings DECIMAL,
+  distance_km DECIMAL
+) AS $$
+BEGIN
+  IF p_period NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Invalid earnings period: %', p_period;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_tz) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', p_tz;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_trunc(p_period, r.completed_at AT TIME ZONE p_tz)::DATE,
+    COUNT(*)::INTEGER,
+    COALESCE(SUM(r.final_fare), 0),
+    COALESCE(SUM(r.distance_km), 0)
+  FROM public.rides r
+  WHERE r.driver_id = auth.uid()
+    AND r.status = 'completed'
+    AND r.completed_at >= p_from
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_driver_earnings(TEXT, TIMESTAMP WITH TIME ZONE, TEXT) FROM anon;
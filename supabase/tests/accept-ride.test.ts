@@ -0,0 +1,50 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  callFunction,
+  createDriver,
+  createOpenRide,
+  deleteUsers,
+  hasTestDatabase,
+  serviceClient,
+  signUpUser,
+  TestUser,
+} from './helpers';
+
+const DRIVER_COUNT = 8;
+
+describe.skipIf(!hasTestDatabase)('accept-ride under concurrent accepts', () => {
+  let customer: TestUser;
+  let drivers: TestUser[] = [];
+
+  beforeAll(async () => {
+    customer = await signUpUser('customer');
+    drivers = await Promise.all(
+      Array.from({ length: DRIVER_COUNT }, (_, i) => createDriver(`racer-${i}`)),
+    );
+  });
+
+  afterAll(async () => {
+    await deleteUsers([customer, ...drivers].filter(Boolean));
+  });
+
+  it('lets exactly one driver claim the ride', async () => {
+    const ride = await createOpenRide(customer);
+
+    const responses = await Promise.all(
+      drivers.map((driver) => callFunction(driver, 'accept-ride', { ride_id: ride.id })),
+    );
+    const statuses = responses.map((response) => response.status);
+
+    expect(statuses.filter((status) => status === 200)).toHaveLength(1);
+    expect(statuses.filter((status) => status === 409)).toHaveLength(DRIVER_COUNT - 1);
+
+    const winner = drivers[statuses.indexOf(200)];
+    const { data: claimed } = await serviceClient()
+      .from('rides')
+      .select('status, driver_id')
+      .eq('id', ride.id)
+      .single();
+
+    expect(claimed).toEqual({ status: 'accepted', driver_id: winner.id });
+  });
+});
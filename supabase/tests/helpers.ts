@@ -0,0 +1,119 @@
+// Helpers for tests that run against a local Supabase stack. Start it with
+// `supabase start` and `supabase functions serve`, then export the URL and
+// keys that `supabase status` prints:
+//
+//   SUPABASE_TEST_URL, SUPABASE_TEST_ANON_KEY, SUPABASE_TEST_SERVICE_ROLE_KEY
+//
+// Without them the suites that need a database are skipped.
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../src/integrations/supabase/types';
+
+const url = process.env.SUPABASE_TEST_URL;
+const anonKey = process.env.SUPABASE_TEST_ANON_KEY;
+const serviceRoleKey = process.env.SUPABASE_TEST_SERVICE_ROLE_KEY;
+
+export const hasTestDatabase = !!(url && anonKey && serviceRoleKey);
+
+const clientOptions = { auth: { persistSession: false, autoRefreshToken: false } };
+
+export const serviceClient = (): SupabaseClient<Database> =>
+  createClient<Database>(url!, serviceRoleKey!, clientOptions);
+
+export const anonClient = (): SupabaseClient<Database> =>
+  createClient<Database>(url!, anonKey!, clientOptions);
+
+export interface TestUser {
+  id: string;
+  email: string;
+  accessToken: string;
+  // Acts as the user, so row level security applies
+  client: SupabaseClient<Database>;
+}
+
+const PASSWORD = 'test-password-123';
+
+const uniqueEmail = (label: string) =>
+  `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}@example.com`;
+
+// Signs a new user up through the public auth API, as the app does
+export const signUpUser = async (
+  userType: 'customer' | 'driver' | 'admin',
+  label: string = userType,
+): Promise<TestUser> => {
+  const email = uniqueEmail(label);
+  const client = anonClient();
+  const { data, error } = await client.auth.signUp({
+    email,
+    password: PASSWORD,
+    options: { data: { full_name: `Test ${label}`, phone: '9999999999', user_type: userType } },
+  });
+
+  if (error) throw error;
+  if (!data.session || !data.user) {
+    throw new Error('Sign up returned no session; disable email confirmations for the local stack');
+  }
+
+  return { id: data.user.id, email, accessToken: data.session.access_token, client };
+};
+
+// A driver with a vehicle who is online and ready for offers
+export const createDriver = async (
+  label: string,
+  vehicleType: Database['public']['Enums']['vehicle_type'] = 'car',
+): Promise<TestUser> => {
+  const driver = await signUpUser('driver', label);
+  const { error } = await serviceClient().from('driver_profiles').insert({
+    user_id: driver.id,
+    vehicle_type: vehicleType,
+    vehicle_number: `TEST-${driver.id.slice(0, 6)}`,
+    is_available: true,
+    current_latitude: 12.9716,
+    current_longitude: 77.5946,
+    location_updated_at: new Date().toISOString(),
+  });
+
+  if (error) throw error;
+  return driver;
+};
+
+// A pending ride already on the open board, so any matching driver may accept it
+export const createOpenRide = async (customer: TestUser) => {
+  const { data, error } = await serviceClient()
+    .from('rides')
+    .insert({
+      customer_id: customer.id,
+      from_location: 'MG Road, Bengaluru',
+      from_latitude: 12.9756,
+      from_longitude: 77.6066,
+      to_location: 'Indiranagar, Bengaluru',
+      to_latitude: 12.9784,
+      to_longitude: 77.6408,
+      pickup_time: new Date().toISOString(),
+      vehicle_type: 'car',
+      status: 'pending',
+      estimated_fare: 150,
+      opened_to_board_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteUsers = async (users: TestUser[]) => {
+  const admin = serviceClient().auth.admin;
+  await Promise.all(users.map((user) => admin.deleteUser(user.id)));
+};
+
+// Calls an edge function directly so the test sees the real status code
+export const callFunction = (user: TestUser, name: string, body: unknown) =>
+  fetch(`${url}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${user.accessToken}`,
+      apikey: anonKey!,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createOpenRide, deleteUsers, hasTestDatabase, signUpUser, TestUser } from './helpers';
+
+describe.skipIf(!hasTestDatabase)('rides row level security', () => {
+  let alice: TestUser;
+  let bob: TestUser;
+  let aliceRideId: string;
+  let bobRideId: string;
+
+  beforeAll(async () => {
+    [alice, bob] = await Promise.all([signUpUser('customer', 'alice'), signUpUser('customer', 'bob')]);
+    [aliceRideId, bobRideId] = (await Promise.all([createOpenRide(alice), createOpenRide(bob)])).map((ride) => ride.id);
+  });
+
+  afterAll(async () => {
+    await deleteUsers([alice, bob].filter(Boolean));
+  });
+
+  it('does not return another customer\'s ride by id', async () => {
+    const { data, error } = await bob.client.from('rides').select('id').eq('id', aliceRideId);
+
+    expect(error).toBeNull();
+    expect(data).toEqual([]);
+  });
+
+  it('only lists the customer\'s own rides', async () => {
+    const { data, error } = await bob.client.from('rides').select('id, customer_id');
+
+    expect(error).toBeNull();
+    expect(data).toEqual([{ id: bobRideId, customer_id: bob.id }]);
+  });
+
+  it('does not let a customer insert a ride directly', async () => {
+    const { error } = await bob.client.from('rides').insert({
+      customer_id: bob.id,
+      from_location: 'MG Road, Bengaluru',
+      to_location: 'Indiranagar, Bengaluru',
+      pickup_time: new Date().toISOString(),
+      vehicle_type: 'car',
+      status: 'completed',
+      driver_id: alice.id,
+      final_fare: 5000,
+    });
+
+    expect(error).not.toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { deleteUsers, hasTestDatabase, signUpUser, TestUser } from './helpers';
+
+describe.skipIf(!hasTestDatabase)('signup', () => {
+  const users: TestUser[] = [];
+
+  afterAll(async () => {
+    await deleteUsers(users);
+  });
+
+  const ownProfile = async (user: TestUser) => {
+    const { data, error } = await user.client
+      .from('profiles')
+      .select('full_name, phone, user_type')
+      .eq('user_id', user.id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  it.each(['customer', 'driver'] as const)('creates a %s profile from the signup metadata', async (role) => {
+    const user = await signUpUser(role);
+    users.push(user);
+
+    expect(await ownProfile(user)).toEqual({
+      full_name: `Test ${role}`,
+      phone: '9999999999',
+      user_type: role,
+    });
+  });
+
+  it('never signs anyone up as an admin', async () => {
+    const user = await signUpUser('admin');
+    users.push(user);
+
+    expect((await ownProfile(user)).user_type).toBe('customer');
+  });
+
+  it.each([
+    ['customer', 'driver'],
+    ['driver', 'customer'],
+    ['customer', 'admin'],
+  ] as const)('does not let a %s change their own role to %s', async (role, target) => {
+    const user = await signUpUser(role);
+    users.push(user);
+
+    const { error } = await user.client
+      .from('profiles')
+      .update({ user_type: target })
+      .eq('user_id', user.id);
+
+    expect(error).not.toBeNull();
+    expect((await ownProfile(user)).user_type).toBe(role);
+  });
+
+  it('still lets users edit the rest of their profile', async () => {
+    const user = await signUpUser('customer');
+    users.push(user);
+
+    const { error } = await user.client
+      .from('profiles')
+      .update({ full_name: 'Renamed customer' })
+      .eq('user_id', user.id);
+
+    expect(error).toBeNull();
+    expect((await ownProfile(user)).full_name).toBe('Renamed customer');
+  });
+});